@@ -0,0 +1,162 @@
+// public/sw.js
+// Offline support: caches the app shell and the last fetched forecasts, and refreshes the
+// last-viewed location with periodic background sync. Also opens the app from alert
+// notifications. Registered from utils/serviceWorker.ts, which shares the sync tag, message
+// type and fallback header names below.
+
+const VERSION = 'v1';
+const SHELL_CACHE = `weatherapp-shell-${VERSION}`;
+const API_CACHE = `weatherapp-api-${VERSION}`;
+const META_CACHE = 'weatherapp-meta';
+
+const PERIODIC_SYNC_TAG = 'refresh-last-forecast';
+const FALLBACK_HEADER = 'x-sw-fetched-at';
+const LAST_FORECAST_KEY = '/__last-forecast';
+
+// Keep the most recently fetched API responses, oldest evicted first
+const MAX_API_ENTRIES = 30;
+
+// Precached so the app opens offline on the first visit after install
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icons/192', '/icons/512', '/icons/maskable'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+// Drop caches from previous versions
+self.addEventListener('activate', (event) => {
+  const current = [SHELL_CACHE, API_CACHE, META_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => !current.includes(key)).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Store an API response with the time it was fetched, evicting the oldest entries
+const storeApiResponse = async (request, response) => {
+  const headers = new Headers(response.headers);
+  headers.set(FALLBACK_HEADER, String(Date.now()));
+  const body = await response.blob();
+
+  const cache = await caches.open(API_CACHE);
+  await cache.put(request, new Response(body, { status: response.status, statusText: response.statusText, headers }));
+
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_API_ENTRIES)).map((key) => cache.delete(key)));
+};
+
+// API routes: network first so forecasts stay current; when the network or server is down,
+// answer from the cache. Cached copies carry FALLBACK_HEADER so the app can tell them apart.
+const handleApiRequest = async (event) => {
+  const { request } = event;
+  try {
+    const response = await fetch(request);
+    if (response.status < 500) {
+      if (response.ok) event.waitUntil(storeApiResponse(request, response.clone()));
+      return response;
+    }
+    const cached = await caches.match(request, { cacheName: API_CACHE, ignoreVary: true });
+    return cached || response;
+  } catch (error) {
+    const cached = await caches.match(request, { cacheName: API_CACHE, ignoreVary: true });
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Page navigations: network first, falling back to the cached page (query string ignored,
+// since the location and units live there). A cached page still holds the forecast it was
+// rendered with; the app sees from its age and location that it is an old copy and loads the
+// URL's location instead (useForecastStore's showInitialForecast).
+const handleNavigation = async (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      event.waitUntil(cache.put(url.pathname, response.clone()));
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(url.pathname, { cacheName: SHELL_CACHE, ignoreVary: true })
+      || await caches.match('/', { cacheName: SHELL_CACHE, ignoreVary: true });
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Static assets: build output is content-hashed, so anything cached is still valid
+const handleStaticRequest = async (event) => {
+  const { request } = event;
+  const cached = await caches.match(request, { cacheName: SHELL_CACHE, ignoreVary: true });
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    event.waitUntil(cache.put(request, response.clone()));
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith('/api/forecast') || url.pathname.startsWith('/api/geocode/')) {
+    event.respondWith(handleApiRequest(event));
+  } else if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(event));
+  } else if (url.pathname.startsWith('/_next/static/') || url.pathname.startsWith('/icons/')) {
+    event.respondWith(handleStaticRequest(event));
+  }
+});
+
+// The page tells us which forecast it is showing so background sync knows what to refresh
+self.addEventListener('message', (event) => {
+  const { data } = event;
+  if (data?.type !== 'last-forecast' || typeof data.url !== 'string') return;
+
+  event.waitUntil(
+    caches.open(META_CACHE).then((cache) => cache.put(LAST_FORECAST_KEY, new Response(data.url)))
+  );
+});
+
+// Weather alert notifications are shown through the worker (see utils/serviceWorker.ts);
+// tapping one brings the app to the front, opening it if no window is left
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const open = windows[0];
+      return open ? open.focus() : self.clients.openWindow('/');
+    })
+  );
+});
+
+// Refetch the last-viewed forecast into the API cache
+const refreshLastForecast = async () => {
+  const stored = await caches.match(LAST_FORECAST_KEY, { cacheName: META_CACHE });
+  if (!stored) return;
+
+  const request = new Request(new URL(await stored.text(), self.location.origin));
+  const response = await fetch(request);
+  if (response.ok) {
+    await storeApiResponse(request, response);
+  }
+};
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === PERIODIC_SYNC_TAG) {
+    event.waitUntil(refreshLastForecast());
+  }
+});
@@ -0,0 +1,76 @@
+import { AddressInfo } from 'node:net';
+import { Server, createServer } from 'node:http';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import forecastJson from '../../../server/providers/fixtures/forecast-nairobi.json';
+import { clearCache } from '../../../server/cache';
+import { GET } from './route';
+
+// A stand-in weather backend: the recorded forecast for Nairobi, 404 for anything else
+let backend: Server;
+let backendRequests: URL[] = [];
+
+beforeAll(async () => {
+  backend = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://backend');
+    backendRequests.push(url);
+    const found = url.pathname === '/api/weather/forecast/city' && url.searchParams.get('city') === 'Nairobi';
+    res.writeHead(found ? 200 : 404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(found ? forecastJson : { detail: 'City not found' }));
+  });
+  await new Promise<void>((resolve) => backend.listen(0, '127.0.0.1', resolve));
+  process.env.WEATHER_PROVIDER = 'backend';
+  process.env.WEATHER_API_URL = `http://127.0.0.1:${(backend.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  delete process.env.WEATHER_PROVIDER;
+  delete process.env.WEATHER_API_URL;
+  await new Promise((resolve) => backend.close(resolve));
+});
+
+afterEach(() => {
+  backendRequests = [];
+  clearCache();
+  delete process.env.RATE_LIMIT_PER_MINUTE;
+});
+
+// Each test is its own client so rate limit windows don't carry over
+let client = 0;
+const get = (search: string, forwardedFor = `198.51.100.${++client}`) => {
+  return GET(new NextRequest(`http://localhost/api/forecast${search}`, { headers: { 'x-forwarded-for': forwardedFor } }));
+};
+
+describe('GET /api/forecast', () => {
+  it('serves the backend’s forecast and caches it', async () => {
+    const first = await get('?city=Nairobi&units=metric&lang=sw');
+    expect(first.status).toBe(200);
+    expect(await first.json()).toEqual(forecastJson);
+    expect(backendRequests.map((url) => url.search)).toEqual(['?city=Nairobi&units=metric&lang=sw']);
+
+    await get('?city=Nairobi&units=metric&lang=sw');
+    expect(backendRequests).toHaveLength(1);
+  });
+
+  it('passes the backend’s 404 for an unknown city through', async () => {
+    const response = await get('?city=Atlantis');
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ detail: 'City not found' });
+  });
+
+  it('rejects requests without a location', async () => {
+    expect((await get('?units=metric')).status).toBe(400);
+    expect(backendRequests).toHaveLength(0);
+  });
+
+  it('rate limits each client, however it fills in X-Forwarded-For', async () => {
+    process.env.RATE_LIMIT_PER_MINUTE = '1';
+    expect((await get('?city=Nairobi', '203.0.113.7')).status).toBe(200);
+
+    const limited = await get('?city=Nairobi', '10.0.0.1, 203.0.113.7');
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+
+    expect((await get('?city=Nairobi', '203.0.113.8')).status).toBe(200);
+  });
+});
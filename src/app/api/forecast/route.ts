@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server';
+import { badRequest, languageParam, serveCached } from '../../../server/proxy';
+import { FORECAST_TTL, forecastRequest } from '../../../server/forecast';
+
+// GET /api/forecast?city=Nairobi&units=metric&lang=sw
+// GET /api/forecast?lat=-1.29&lon=36.82&units=metric&lang=sw
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const units = searchParams.get('units') === 'imperial' ? 'imperial' : 'metric';
+  const city = searchParams.get('city')?.trim();
+  const lat = parseFloat(searchParams.get('lat') ?? '');
+  const lon = parseFloat(searchParams.get('lon') ?? '');
+  // Language for weather descriptions
+  const lang = languageParam(searchParams);
+
+  if (city) {
+    return serveCached(request, { ...forecastRequest({ city }, units, lang), ttl: FORECAST_TTL });
+  }
+
+  if (Number.isFinite(lat) && Number.isFinite(lon)) {
+    return serveCached(request, { ...forecastRequest({ lat, lon }, units, lang), ttl: FORECAST_TTL });
+  }
+
+  return badRequest('Provide either city or lat and lon');
+}
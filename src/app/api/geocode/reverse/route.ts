@@ -0,0 +1,28 @@
+import { NextRequest } from 'next/server';
+import { badRequest, cacheKey, languageParam, serveCached } from '../../../../server/proxy';
+import { weatherProvider } from '../../../../server/providers';
+
+// Place names for a coordinate rarely change
+const REVERSE_TTL = 24 * 60 * 60 * 1000;
+
+// GET /api/geocode/reverse?lat=-1.29&lon=36.82&lang=fr
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const lat = parseFloat(searchParams.get('lat') ?? '');
+  const lon = parseFloat(searchParams.get('lon') ?? '');
+  const lang = languageParam(searchParams);
+
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) {
+    return badRequest('lat and lon are required');
+  }
+
+  const provider = weatherProvider();
+  // Round to ~100m so nearby requests share a cache entry
+  const latitude = Number(lat.toFixed(3));
+  const longitude = Number(lon.toFixed(3));
+  return serveCached(request, {
+    key: cacheKey(provider.id, '/geocode/reverse', { latitude, longitude, ...(lang && { lang }) }),
+    ttl: REVERSE_TTL,
+    load: () => provider.reverseGeocode(latitude, longitude, { lang })  // Place names in the UI language
+  });
+}
@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server';
+import { badRequest, cacheKey, languageParam, serveCached } from '../../../../server/proxy';
+import { weatherProvider } from '../../../../server/providers';
+
+const SEARCH_TTL = 24 * 60 * 60 * 1000;
+const MAX_LIMIT = 10;
+
+// GET /api/geocode/search?q=Paris&limit=5&lang=fr
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const query = searchParams.get('q')?.trim();
+  const lang = languageParam(searchParams);
+  const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(searchParams.get('limit') ?? '5', 10) || 5));
+
+  if (!query) {
+    return badRequest('q is required');
+  }
+
+  const provider = weatherProvider();
+  return serveCached(request, {
+    key: cacheKey(provider.id, '/geocode/search', { q: query, limit, ...(lang && { lang }) }),
+    ttl: SEARCH_TTL,
+    load: () => provider.searchPlaces(query, { limit, lang })  // Place names in the UI language
+  });
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { proxyRequest } from '../../../../server/proxy';
+import { clientIp } from '../../../../server/rateLimit';
+import { ipLocationUpstream, ipLocationUrl } from '../../../../server/upstreams';
+
+// An address's rough location rarely changes
+const IP_LOCATION_TTL = 60 * 60 * 1000;
+
+// GET /api/location/ip
+// Coarse location of the caller's IP address, used when browser geolocation isn't available
+export async function GET(request: NextRequest) {
+  const ip = clientIp(request.headers);
+  if (ip === 'unknown') {
+    return NextResponse.json({ error: 'Client address unknown' }, { status: 404 });
+  }
+
+  return proxyRequest(request, {
+    upstream: ipLocationUpstream(),
+    path: ipLocationUrl(ip),
+    params: {},
+    ttl: IP_LOCATION_TTL
+  });
+}
@@ -0,0 +1,9 @@
+import { renderAppIcon } from './icons/appIcon';
+
+export const size = { width: 180, height: 180 };
+export const contentType = 'image/png';
+
+// Home screen icon for iOS, which ignores the web manifest icons
+export default function AppleIcon() {
+  return renderAppIcon(size.width, { maskable: true });
+}
@@ -0,0 +1,146 @@
+import type { Metadata } from 'next';
+import Image from 'next/image';
+import { headers } from 'next/headers';
+import { fetchForecast } from '../../server/forecast';
+import { RateLimitError, UpstreamError } from '../../server/proxy';
+import { clientIp } from '../../server/rateLimit';
+import { currentConditions } from '../../utils/currentConditions';
+import { WeatherForecast, getWeatherIconUrl } from '../../utils/weather';
+import { buildUrlSearch, readUrlState, searchFromParams } from '../../utils/urlState';
+import { DEFAULT_LOCALE, MessageKey, MessageValues, intlLocaleOf, isLocale, translate } from '../../utils/i18n';
+import { UNIT_SYSTEM_PRESETS, formatPercent, formatTemperature, formatWindSpeed } from '../../utils/units';
+import { formatWeekday } from '../../utils/time';
+
+interface EmbedPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+// Text and icon sizes for ?size=
+const SIZES = {
+  sm: { text: 'text-xs', temperature: 'text-3xl', icon: 48, padding: 'p-2' },
+  md: { text: 'text-sm', temperature: 'text-5xl', icon: 64, padding: 'p-3' },
+  lg: { text: 'text-base', temperature: 'text-6xl', icon: 96, padding: 'p-4' },
+};
+
+// Colours for ?theme=; "system" follows the viewer's theme like the app does
+const THEMES = {
+  light: 'bg-white text-gray-900',
+  dark: 'bg-gray-900 text-gray-100',
+  system: 'dark-light',
+};
+
+const DEFAULT_DAYS = 3;
+const MAX_DAYS = 5;
+
+export const metadata: Metadata = {
+  title: 'Weather widget',
+  robots: { index: false },
+};
+
+// Read one query parameter, falling back when it's missing or not one of `options`
+const pick = <T extends string>(value: string | null, options: Record<T, unknown>, fallback: T): T => {
+  return value !== null && Object.hasOwn(options, value) ? value as T : fallback;
+};
+
+// Read ?days=, falling back to the default only when it's missing or not a number; 0 shows
+// just the current conditions
+const dayCountOf = (value: string | null): number => {
+  const days = parseInt(value ?? '', 10);
+  return Number.isNaN(days) ? DEFAULT_DAYS : Math.min(MAX_DAYS, Math.max(0, days));
+};
+
+// GET /embed?q=Nairobi&units=metric&lang=sw&theme=dark&size=sm&days=3
+// A compact forecast for iframes on dashboards: current conditions and the next days, with
+// no controls. Takes the app's location parameters (q, or lat and lon) and units.
+export default async function EmbedPage({ searchParams }: EmbedPageProps) {
+  const search = searchFromParams(await searchParams);
+  const params = new URLSearchParams(search);
+  const { location, units } = readUrlState(search);
+  const lang = params.get('lang');
+  const locale = isLocale(lang) ? lang : DEFAULT_LOCALE;
+  const size = SIZES[pick(params.get('size'), SIZES, 'md')];
+  const theme = THEMES[pick(params.get('theme'), THEMES, 'system')];
+  const dayCount = dayCountOf(params.get('days'));
+
+  const t = (key: MessageKey, values?: MessageValues) => translate(locale, key, values);
+  const intlLocale = intlLocaleOf(locale);
+  const preferences = UNIT_SYSTEM_PRESETS[units ?? 'metric'];
+  const temperature = (celsius: number) => formatTemperature(celsius, preferences.temperature, 0, intlLocale);
+
+  const frame = (content: React.ReactNode) => (
+    <main className={`min-h-screen flex flex-col gap-2 ${theme} ${size.text} ${size.padding}`}>{content}</main>
+  );
+
+  if (!location) {
+    return frame(<p>{t('embed.noLocation')}</p>);
+  }
+
+  let forecast: WeatherForecast;
+  try {
+    forecast = await fetchForecast(location, 'metric', locale, clientIp(await headers()));
+  } catch (error) {
+    // Malformed forecasts (ResponseValidationErrors) are reported like any other server failure
+    let message = t('errors.server');
+    if (error instanceof RateLimitError) {
+      message = t('errors.rateLimited');
+    } else if (error instanceof UpstreamError && error.status === 404) {
+      message = t('errors.cityNotFound', { city: 'city' in location ? location.city : '' });
+    }
+    return frame(<p role="alert">{message}</p>);
+  }
+
+  const today = forecast.daily_forecasts[0];
+  if (!today) {
+    return frame(<p role="alert">{t('errors.server')}</p>);
+  }
+  const current = currentConditions(forecast, Date.now());
+  const icon = current?.weather[0]?.icon ?? today.weather_icon;
+  const description = current?.weather[0]?.description ?? today.weather_description;
+  const upcoming = forecast.daily_forecasts.slice(1, 1 + dayCount);
+
+  return frame(
+    <>
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <p className="font-semibold truncate">{forecast.city_info.name}</p>
+          <p className="capitalize">{description}</p>
+        </div>
+        <div className="flex items-center">
+          <Image src={getWeatherIconUrl(icon)} alt={description} width={size.icon} height={size.icon} className="weather-icon" />
+          <span className={`${size.temperature} font-bold`}>{temperature(current?.main.temp ?? today.avg_temp)}</span>
+        </div>
+      </div>
+
+      {current && (
+        <p>
+          {t('embed.conditions', {
+            feelsLike: temperature(current.main.feels_like),
+            wind: formatWindSpeed(current.wind.speed, preferences.windSpeed, intlLocale),
+            humidity: formatPercent(current.main.humidity, intlLocale)
+          })}
+        </p>
+      )}
+
+      {upcoming.length > 0 && (
+        <ol className="grid gap-2" style={{ gridTemplateColumns: `repeat(${upcoming.length}, minmax(0, 1fr))` }}>
+          {upcoming.map((day, index) => (
+            <li key={day.date} className="flex flex-col items-center text-center">
+              <span>{index === 0 ? t('forecast.tomorrow') : formatWeekday(day.date, intlLocale)}</span>
+              <Image src={getWeatherIconUrl(day.weather_icon)} alt={day.weather_description} width={size.icon * 0.75} height={size.icon * 0.75} className="weather-icon" />
+              <span>{`${temperature(day.max_temp)} / ${temperature(day.min_temp)}`}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <a
+        href={`/${buildUrlSearch({ location, units, day: null })}`}
+        target="_blank"
+        rel="noopener"
+        className="mt-auto self-end underline"
+      >
+        {t('embed.open')}
+      </a>
+    </>
+  );
+}
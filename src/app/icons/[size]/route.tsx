@@ -0,0 +1,22 @@
+import { renderAppIcon } from '../appIcon';
+
+// Sizes referenced from the web manifest; "maskable" is the 512px icon with safe-zone padding
+const ICON_SIZES: Record<string, { size: number; maskable?: boolean }> = {
+  '192': { size: 192 },
+  '512': { size: 512 },
+  maskable: { size: 512, maskable: true },
+};
+
+export const dynamic = 'force-static';
+
+export const generateStaticParams = () => Object.keys(ICON_SIZES).map((size) => ({ size }));
+
+// GET /icons/192, /icons/512 or /icons/maskable
+export async function GET(_request: Request, { params }: { params: Promise<{ size: string }> }) {
+  const { size } = await params;
+  const icon = ICON_SIZES[size];
+  if (!icon) {
+    return new Response('Not found', { status: 404 });
+  }
+  return renderAppIcon(icon.size, { maskable: icon.maskable });
+}
@@ -0,0 +1,68 @@
+// app/icons/appIcon.tsx
+import { ImageResponse } from 'next/og';
+
+// Brand colours shared by the icons and the web manifest
+export const THEME_COLOR = '#1e3a8a';
+export const BACKGROUND_COLOR = '#ffffff';
+
+// Render the app icon (a sun behind a cloud) as a square PNG.
+// Maskable icons keep the artwork inside the central 80% safe zone.
+export const renderAppIcon = (size: number, { maskable = false }: { maskable?: boolean } = {}) => {
+  const scale = maskable ? 0.8 : 1;
+  const unit = (size * scale) / 100;
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          background: THEME_COLOR,
+          borderRadius: maskable ? 0 : size * 0.2,
+        }}
+      >
+        <div style={{ position: 'relative', width: 80 * unit, height: 64 * unit, display: 'flex' }}>
+          {/* Sun */}
+          <div
+            style={{
+              position: 'absolute',
+              top: 0,
+              right: 6 * unit,
+              width: 38 * unit,
+              height: 38 * unit,
+              borderRadius: '50%',
+              background: '#facc15',
+            }}
+          />
+          {/* Cloud */}
+          <div
+            style={{
+              position: 'absolute',
+              left: 14 * unit,
+              bottom: 8 * unit,
+              width: 36 * unit,
+              height: 36 * unit,
+              borderRadius: '50%',
+              background: BACKGROUND_COLOR,
+            }}
+          />
+          <div
+            style={{
+              position: 'absolute',
+              left: 0,
+              right: 0,
+              bottom: 0,
+              height: 24 * unit,
+              borderRadius: 12 * unit,
+              background: BACKGROUND_COLOR,
+            }}
+          />
+        </div>
+      </div>
+    ),
+    { width: size, height: size }
+  );
+};
@@ -1,5 +1,10 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import ServiceWorkerRegistration from "../components/ServiceWorkerRegistration";
+import LocaleProvider from "../components/LocaleProvider";
+import ThemeProvider from "../components/ThemeProvider";
+import { THEME_INIT_SCRIPT } from "../utils/theme";
+import { THEME_COLOR } from "./icons/appIcon";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -13,8 +18,33 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
+  // Absolute base for preview image URLs; Next falls back to localhost when unset
+  metadataBase: process.env.SITE_URL ? new URL(process.env.SITE_URL) : undefined,
+  title: "Weather App",
+  description: "Hourly and daily weather forecasts that keep working with patchy coverage.",
+  applicationName: "Weather App",
+  openGraph: {
+    title: "Weather App",
+    description: "Hourly and daily weather forecasts that keep working with patchy coverage.",
+    images: [{ url: "/og", width: 1200, height: 630, alt: "Weather App" }],
+  },
+  twitter: {
+    card: "summary_large_image",
+  },
+  appleWebApp: {
+    capable: true,
+    title: "Weather",
+    statusBarStyle: "default",
+  },
+  formatDetection: {
+    telephone: false,
+  },
+};
+
+export const viewport: Viewport = {
+  themeColor: THEME_COLOR,
+  width: "device-width",
+  initialScale: 1,
 };
 
 export default function RootLayout({
@@ -23,11 +53,18 @@ export default function RootLayout({
   children: React.ReactNode;
 }>) {
   return (
-    <html lang="en">
+    // The init script sets data-theme and data-contrast before hydration
+    <html lang="en" suppressHydrationWarning>
+      <head>
+        <script dangerouslySetInnerHTML={{ __html: THEME_INIT_SCRIPT }} />
+      </head>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <ThemeProvider>
+          <LocaleProvider>{children}</LocaleProvider>
+        </ThemeProvider>
+        <ServiceWorkerRegistration />
       </body>
     </html>
   );
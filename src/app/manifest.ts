@@ -0,0 +1,23 @@
+import type { MetadataRoute } from 'next';
+import { BACKGROUND_COLOR, THEME_COLOR } from './icons/appIcon';
+
+// Web app manifest served at /manifest.webmanifest
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'Weather App',
+    short_name: 'Weather',
+    description: 'Hourly and daily weather forecasts that keep working with patchy coverage.',
+    start_url: '/',
+    scope: '/',
+    display: 'standalone',
+    orientation: 'portrait',
+    background_color: BACKGROUND_COLOR,
+    theme_color: THEME_COLOR,
+    categories: ['weather', 'utilities'],
+    icons: [
+      { src: '/icons/192', sizes: '192x192', type: 'image/png', purpose: 'any' },
+      { src: '/icons/512', sizes: '512x512', type: 'image/png', purpose: 'any' },
+      { src: '/icons/maskable', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+    ],
+  };
+}
@@ -0,0 +1,96 @@
+import { ImageResponse } from 'next/og';
+import { NextRequest } from 'next/server';
+import { ForecastHeadline, fetchForecast, forecastHeadline } from '../../server/forecast';
+import { RateLimitError } from '../../server/proxy';
+import { clientIp } from '../../server/rateLimit';
+import { getWeatherIconUrl } from '../../utils/weather';
+import { readUrlState } from '../../utils/urlState';
+import { DEFAULT_LOCALE, intlLocaleOf } from '../../utils/i18n';
+import { TemperatureUnit, UNIT_SYSTEM_PRESETS, formatTemperature } from '../../utils/units';
+import { BACKGROUND_COLOR, THEME_COLOR } from '../icons/appIcon';
+
+const WIDTH = 1200;
+const HEIGHT = 630;
+
+// Previews are re-fetched by each site that unfurls a link; match the forecast cache's lifetime
+const CACHE_CONTROL = 'public, max-age=600, stale-while-revalidate=3600';
+
+// Fetch a weather icon as a data URL so a slow or unreachable icon host can't fail the image
+const loadIcon = async (icon: string): Promise<string | null> => {
+  try {
+    const response = await fetch(getWeatherIconUrl(icon), { signal: AbortSignal.timeout(3000) });
+    if (!response.ok) return null;
+    const bytes = Buffer.from(await response.arrayBuffer()).toString('base64');
+    return `data:${response.headers.get('content-type') ?? 'image/png'};base64,${bytes}`;
+  } catch {
+    return null;
+  }
+};
+
+// Location, current temperature and icon, with today's range
+const renderHeadline = (headline: ForecastHeadline, icon: string | null, unit: TemperatureUnit) => {
+  const locale = intlLocaleOf(DEFAULT_LOCALE);
+  const temperature = (celsius: number) => formatTemperature(celsius, unit, 0, locale);
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', justifyContent: 'space-between', width: '100%', height: '100%', padding: 72 }}>
+      <div style={{ display: 'flex', fontSize: 64, fontWeight: 700 }}>{headline.location}</div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 32 }}>
+        {/* eslint-disable-next-line @next/next/no-img-element -- rendered to a PNG, not a page */}
+        {icon && <img src={icon} width={200} height={200} alt="" />}
+        <div style={{ display: 'flex', flexDirection: 'column' }}>
+          <div style={{ display: 'flex', fontSize: 160, fontWeight: 700, lineHeight: 1 }}>{temperature(headline.temperature)}</div>
+          <div style={{ display: 'flex', fontSize: 44, textTransform: 'capitalize' }}>{headline.description}</div>
+        </div>
+      </div>
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 36, opacity: 0.85 }}>
+        <span>{`${temperature(headline.low)} / ${temperature(headline.high)}`}</span>
+        <span>Weather App</span>
+      </div>
+    </div>
+  );
+};
+
+// Shown for links without a location, or when the forecast can't be fetched
+const renderDefault = () => (
+  <div style={{ display: 'flex', flexDirection: 'column', justifyContent: 'center', width: '100%', height: '100%', padding: 72 }}>
+    <div style={{ display: 'flex', fontSize: 96, fontWeight: 700 }}>Weather App</div>
+    <div style={{ display: 'flex', fontSize: 44, opacity: 0.85 }}>
+      Hourly and daily weather forecasts that keep working with patchy coverage.
+    </div>
+  </div>
+);
+
+// GET /og?q=Nairobi&units=imperial
+// GET /og?lat=-1.2864&lon=36.8172
+// Open Graph preview image for a deep link (same query parameters as the app's URL). The
+// forecast is fetched in the same language as the page's metadata so both share a cache entry.
+// Callers over the API rate limit get a 429 rather than the default card, which would be cached
+// for the link like a real preview.
+export async function GET(request: NextRequest) {
+  const { location, units } = readUrlState(request.nextUrl.search);
+
+  let content = renderDefault();
+  if (location) {
+    try {
+      const forecast = await fetchForecast(location, 'metric', DEFAULT_LOCALE, clientIp(request.headers));
+      const headline = forecastHeadline(forecast, Date.now());
+      content = renderHeadline(headline, await loadIcon(headline.icon), UNIT_SYSTEM_PRESETS[units ?? 'metric'].temperature);
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        return new Response(error.message, { status: 429, headers: { 'Retry-After': String(error.retryAfter) } });
+      }
+      console.error('Error rendering preview image:', error);
+    }
+  }
+
+  return new ImageResponse(
+    (
+      <div style={{ display: 'flex', width: '100%', height: '100%', background: `linear-gradient(135deg, ${THEME_COLOR}, #3b82f6)`, color: BACKGROUND_COLOR }}>
+        {content}
+      </div>
+    ),
+    { width: WIDTH, height: HEIGHT, headers: { 'Cache-Control': CACHE_CONTROL } }
+  );
+}
+
@@ -0,0 +1,231 @@
+'use client'
+import React, { useState } from 'react';
+import { Bell, BellOff, Trash2 } from 'lucide-react';
+import { WeatherForecast } from '../utils/weather';
+import {
+  ALERT_DAY_LABELS,
+  ALERT_METRIC_LABELS,
+  AlertDay,
+  AlertMetric,
+  AlertRule,
+  evaluateRules
+} from '../utils/alerts';
+import {
+  UnitPreferences,
+  convertTemperature,
+  formatPercent,
+  formatRain,
+  formatTemperature,
+  formatWindSpeed,
+  temperatureSymbol,
+  toCelsius,
+  toMetresPerSecond,
+  windSpeedLabel
+} from '../utils/units';
+import { favoriteKey } from '../hooks/useFavorites';
+import { useLocale } from '../hooks/useLocale';
+import { formatUnixAtLocation } from '../utils/time';
+
+interface AlertsPanelProps {
+  forecast: WeatherForecast | null;
+  rules: AlertRule[];
+  preferences: UnitPreferences;
+  notificationsEnabled: boolean;
+  onAddRule: (rule: Omit<AlertRule, 'id'>) => void;
+  onRemoveRule: (id: string) => void;
+  onEnableNotifications: () => void;
+  onDisableNotifications: () => void;
+}
+
+// Format a canonical threshold or forecast value in the user's display units
+const formatValue = (metric: AlertMetric, value: number, preferences: UnitPreferences, locale: string) => {
+  switch (metric) {
+    case 'max_temp':
+    case 'min_temp':
+      return formatTemperature(value, preferences.temperature, 0, locale);
+    case 'wind_gust':
+      return formatWindSpeed(value, preferences.windSpeed, locale);
+    case 'pop':
+      return formatPercent(value * 100, locale);
+    case 'rain':
+      return formatRain(value, locale);
+  }
+};
+
+// Unit label shown next to the threshold input
+const inputUnit = (metric: AlertMetric, preferences: UnitPreferences) => {
+  switch (metric) {
+    case 'max_temp':
+    case 'min_temp':
+      return temperatureSymbol(preferences.temperature);
+    case 'wind_gust':
+      return windSpeedLabel(preferences.windSpeed);
+    case 'pop':
+      return '%';
+    case 'rain':
+      return 'mm';
+  }
+};
+
+// Convert a threshold typed in display units to the canonical units rules are stored in
+const toCanonical = (metric: AlertMetric, value: number, preferences: UnitPreferences) => {
+  switch (metric) {
+    case 'max_temp':
+    case 'min_temp':
+      return toCelsius(value, preferences.temperature);
+    case 'wind_gust':
+      return toMetresPerSecond(value, preferences.windSpeed);
+    case 'pop':
+      return value / 100;
+    case 'rain':
+      return value;
+  }
+};
+
+// Format the time an alert triggers in the location's timezone, e.g. "Thu 3 PM"
+const formatTriggerTime = (dt: number, timezoneOffset: number, locale: string) => {
+  return formatUnixAtLocation(dt, timezoneOffset, {
+    weekday: 'short',
+    hour: 'numeric'
+  }, locale);
+};
+
+const AlertsPanel = ({
+  forecast,
+  rules,
+  preferences,
+  notificationsEnabled,
+  onAddRule,
+  onRemoveRule,
+  onEnableNotifications,
+  onDisableNotifications
+}: AlertsPanelProps) => {
+  const [metric, setMetric] = useState<AlertMetric>('max_temp');
+  const [comparator, setComparator] = useState<'above' | 'below'>('above');
+  const [threshold, setThreshold] = useState('');
+  const [day, setDay] = useState<AlertDay>('tomorrow');
+  const { t, intlLocale } = useLocale();
+
+  if (!forecast?.city_info) return null;
+
+  const location = forecast.city_info;
+  const locationKey = favoriteKey(location);
+  const locationRules = rules.filter((rule) => rule.locationKey === locationKey);
+  const triggered = evaluateRules(locationRules, forecast);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(threshold);
+    if (!Number.isFinite(value)) return;
+
+    onAddRule({
+      locationKey,
+      locationName: location.name,
+      lat: location.lat,
+      lon: location.lon,
+      metric,
+      comparator,
+      threshold: toCanonical(metric, value, preferences),
+      day
+    });
+    setThreshold('');
+  };
+
+  return (
+    <div className="card border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="text-sm">{t('alerts.title', { location: location.name })}</div>
+        <button
+          type="button"
+          onClick={notificationsEnabled ? onDisableNotifications : onEnableNotifications}
+          className="flex items-center gap-1 px-3 py-1 border border-gray-300 rounded-md text-xs cursor-pointer"
+          aria-pressed={notificationsEnabled}
+        >
+          {notificationsEnabled ? <Bell className="h-4 w-4" /> : <BellOff className="h-4 w-4" />}
+          {notificationsEnabled ? t('alerts.notificationsOn') : t('alerts.enableNotifications')}
+        </button>
+      </div>
+
+      {/* Triggered alerts */}
+      {triggered.length > 0 ? (
+        <ul className="mb-3 flex flex-col gap-1">
+          {triggered.map((alert) => (
+            <li key={alert.rule.id} className="bg-yellow-100 border border-yellow-400 text-yellow-800 px-3 py-1 rounded-md text-sm">
+              {t('alerts.triggered', {
+                metric: t(ALERT_METRIC_LABELS[alert.rule.metric]),
+                comparator: t(alert.rule.comparator === 'above' ? 'alerts.above' : 'alerts.below'),
+                threshold: formatValue(alert.rule.metric, alert.rule.threshold, preferences, intlLocale),
+                time: formatTriggerTime(alert.dt, forecast.city.timezone, intlLocale),
+                value: formatValue(alert.rule.metric, alert.value, preferences, intlLocale)
+              })}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mb-3 text-xs">
+          {locationRules.length > 0 ? t('alerts.noneTriggered') : t('alerts.noRules')}
+        </p>
+      )}
+
+      {/* Rules for this location */}
+      {locationRules.length > 0 && (
+        <ul className="mb-3 flex flex-col gap-1">
+          {locationRules.map((rule) => (
+            <li key={rule.id} className="flex items-center justify-between text-xs">
+              <span>
+                {t('alerts.rule', {
+                  day: t(ALERT_DAY_LABELS[rule.day]),
+                  metric: t(ALERT_METRIC_LABELS[rule.metric]),
+                  comparator: t(rule.comparator === 'above' ? 'alerts.above' : 'alerts.below'),
+                  threshold: formatValue(rule.metric, rule.threshold, preferences, intlLocale)
+                })}
+              </span>
+              <button
+                type="button"
+                onClick={() => onRemoveRule(rule.id)}
+                className="p-1 cursor-pointer"
+                aria-label={t('alerts.delete')}
+              >
+                <Trash2 className="h-4 w-4 text-gray-500" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* New rule */}
+      <form onSubmit={handleAdd} className="flex items-center gap-2 flex-wrap text-sm">
+        <select value={day} onChange={(e) => setDay(e.target.value as AlertDay)} className="px-2 py-1 border border-gray-300 rounded-md" aria-label={t('alerts.dayLabel')}>
+          {(Object.keys(ALERT_DAY_LABELS) as AlertDay[]).map((value) => (
+            <option key={value} value={value}>{t(ALERT_DAY_LABELS[value])}</option>
+          ))}
+        </select>
+        <select value={metric} onChange={(e) => setMetric(e.target.value as AlertMetric)} className="px-2 py-1 border border-gray-300 rounded-md" aria-label={t('alerts.metricLabel')}>
+          {(Object.keys(ALERT_METRIC_LABELS) as AlertMetric[]).map((value) => (
+            <option key={value} value={value}>{t(ALERT_METRIC_LABELS[value])}</option>
+          ))}
+        </select>
+        <select value={comparator} onChange={(e) => setComparator(e.target.value as 'above' | 'below')} className="px-2 py-1 border border-gray-300 rounded-md" aria-label={t('alerts.comparisonLabel')}>
+          <option value="above">{t('alerts.above')}</option>
+          <option value="below">{t('alerts.below')}</option>
+        </select>
+        <input
+          type="number"
+          step="any"
+          value={threshold}
+          onChange={(e) => setThreshold(e.target.value)}
+          placeholder={metric === 'max_temp' || metric === 'min_temp' ? String(Math.round(convertTemperature(30, preferences.temperature))) : ''}
+          className="w-20 px-2 py-1 border border-gray-300 rounded-md"
+          aria-label={t('alerts.thresholdLabel')}
+          required
+        />
+        <span className="text-xs">{inputUnit(metric, preferences)}</span>
+        <button type="submit" className="px-3 py-1 border border-gray-300 rounded-md cursor-pointer">
+          {t('alerts.add')}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default AlertsPanel;
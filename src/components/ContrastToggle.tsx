@@ -0,0 +1,24 @@
+'use client'
+import React from 'react';
+import { Contrast } from 'lucide-react';
+import { useContrastPreference } from '../hooks/useContrastPreference';
+import { useLocale } from '../hooks/useLocale';
+
+const ContrastToggle = () => {
+  const { highContrast, toggleHighContrast } = useContrastPreference();
+  const { t } = useLocale();
+
+  return (
+    <button
+      type="button"
+      onClick={toggleHighContrast}
+      className="p-2"
+      aria-pressed={highContrast}
+      aria-label={t('contrast.toggle')}
+    >
+      <Contrast className="h-6 w-6 text-gray-500 cursor-pointer" />
+    </button>
+  );
+};
+
+export default ContrastToggle;
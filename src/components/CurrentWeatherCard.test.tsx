@@ -0,0 +1,76 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { DEFAULT_UNIT_PREFERENCES, UNIT_SYSTEM_PRESETS } from '../utils/units';
+import { nairobiForecast } from '../test/fixtures';
+import { axeViolations } from '../test/axe';
+import CurrentWeatherCard from './CurrentWeatherCard';
+
+// 10 March 2025, 09:00 in Nairobi (UTC+3), three hours before the fixture's first slot
+const NOW = Date.UTC(2025, 2, 10, 6);
+const OFFSET = 3 * 60 * 60;
+
+describe('CurrentWeatherCard', () => {
+  it('shows a skeleton instead of placeholder conditions before a forecast arrives', () => {
+    const { container } = render(
+      <CurrentWeatherCard forecast={null} preferences={DEFAULT_UNIT_PREFERENCES} now={null} timezoneOffset={0} isFavorite={false} onToggleFavorite={() => {}} />
+    );
+    expect(container.firstElementChild?.getAttribute('aria-hidden')).toBe('true');
+    expect(container.querySelector('img')).toBeNull();
+    expect(container.textContent).toBe('');
+  });
+
+  it('shows the current conditions at the forecast location', () => {
+    const forecast = nairobiForecast();
+    const current = forecast.daily_forecasts[0].hourly_forecasts[0];
+    render(
+      <CurrentWeatherCard forecast={forecast} current={current} preferences={DEFAULT_UNIT_PREFERENCES} now={NOW} timezoneOffset={OFFSET} isFavorite={false} onToggleFavorite={() => {}} />
+    );
+
+    expect(screen.getByRole('heading', { level: 2 }).textContent).toBe('26°C');
+    expect(screen.getByRole('img', { name: 'scattered clouds' }).getAttribute('src')).toContain('03d');
+    expect(screen.getByText('scattered clouds')).toBeTruthy();
+    expect(screen.getByText('Nairobi')).toBeTruthy();
+    expect(screen.getByText('Mar 10, 2025')).toBeTruthy();
+    expect(screen.getByText('09:00 AM')).toBeTruthy();
+  });
+
+  it('converts the temperature to the preferred unit', () => {
+    const forecast = nairobiForecast();
+    render(
+      <CurrentWeatherCard forecast={forecast} current={forecast.daily_forecasts[0].hourly_forecasts[0]} preferences={UNIT_SYSTEM_PRESETS.imperial} now={NOW} timezoneOffset={OFFSET} isFavorite={false} onToggleFavorite={() => {}} />
+    );
+    expect(screen.getByRole('heading', { level: 2 }).textContent).toBe('79°F');
+  });
+
+  it('falls back to the day’s conditions without a current slot', () => {
+    render(
+      <CurrentWeatherCard forecast={nairobiForecast()} preferences={DEFAULT_UNIT_PREFERENCES} now={null} timezoneOffset={OFFSET} isFavorite={false} onToggleFavorite={() => {}} />
+    );
+    expect(screen.getByRole('heading', { level: 2 }).textContent).toBe('-- °C');
+    expect(screen.getByText('scattered clouds')).toBeTruthy();
+    expect(screen.getByText('--:--')).toBeTruthy();
+  });
+
+  it('toggles the location as a favorite', () => {
+    const onToggleFavorite = vi.fn();
+    render(
+      <CurrentWeatherCard forecast={nairobiForecast()} preferences={DEFAULT_UNIT_PREFERENCES} now={NOW} timezoneOffset={OFFSET} isFavorite onToggleFavorite={onToggleFavorite} />
+    );
+
+    const toggle = screen.getByRole('button', { name: 'Remove from favorites' });
+    expect(toggle.getAttribute('aria-pressed')).toBe('true');
+    fireEvent.click(toggle);
+    expect(onToggleFavorite).toHaveBeenCalledOnce();
+  });
+
+  it('passes axe checks as a skeleton and with a forecast', async () => {
+    const forecast = nairobiForecast();
+    const props = { preferences: DEFAULT_UNIT_PREFERENCES, now: NOW, timezoneOffset: OFFSET, isFavorite: false, onToggleFavorite: () => {} };
+    const { container, rerender } = render(<CurrentWeatherCard forecast={null} {...props} />);
+    expect(await axeViolations(container)).toEqual([]);
+
+    rerender(<CurrentWeatherCard forecast={forecast} current={forecast.daily_forecasts[0].hourly_forecasts[0]} {...props} />);
+    expect(await axeViolations(container)).toEqual([]);
+  });
+});
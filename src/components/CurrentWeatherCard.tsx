@@ -0,0 +1,118 @@
+'use client'
+import React from 'react';
+import Image from 'next/image';
+import { Star } from 'lucide-react';
+import { HourlyForecast, WeatherForecast, getWeatherIconUrl } from '../utils/weather';
+import { UnitPreferences, formatTemperature, temperatureSymbol } from '../utils/units';
+import { formatAtLocation } from '../utils/time';
+import { useLocale } from '../hooks/useLocale';
+import ExportMenu from './ExportMenu';
+
+interface CurrentWeatherCardProps {
+  forecast: WeatherForecast | null;
+  current?: HourlyForecast; // Conditions now (see utils/currentConditions.ts)
+  preferences: UnitPreferences;
+  now: number | null; // Epoch milliseconds
+  timezoneOffset: number; // Seconds east of UTC
+  isFavorite: boolean;
+  onToggleFavorite: () => void;
+}
+
+const CurrentWeatherCard = ({ forecast, current, preferences, now, timezoneOffset, isFavorite, onToggleFavorite }: CurrentWeatherCardProps) => {
+  const { t, intlLocale } = useLocale();
+
+  // Skeleton until a forecast arrives, rather than placeholder conditions that look real
+  if (!forecast) {
+    return (
+      <div className="card md:col-span-1 border border-gray-200 rounded-lg p-4 flex flex-col justify-between animate-pulse" aria-hidden="true">
+        <div className="h-24 w-24 mx-auto bg-gray-200 rounded-full" />
+        <div className="h-8 w-20 mx-auto bg-gray-200 rounded mt-4 mb-1" />
+        <div className="h-6 w-32 mx-auto bg-gray-200 rounded mb-6" />
+        <div className="mt-auto flex flex-col items-center gap-2">
+          <div className="h-3 w-24 bg-gray-200 rounded" />
+          <div className="h-3 w-20 bg-gray-200 rounded" />
+          <div className="h-3 w-12 bg-gray-200 rounded" />
+        </div>
+      </div>
+    );
+  }
+
+  // Icon and description of the current hour, falling back to today's overall conditions
+  const today = forecast.daily_forecasts?.[0];
+  const icon = current?.weather[0]?.icon ?? today?.weather_icon;
+  const description = current?.weather[0]?.description ?? today?.weather_description;
+
+  // Get the current date at the forecast location
+  const getCurrentDate = () => {
+    if (now === null) return '';
+    return formatAtLocation(now, timezoneOffset, {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric'
+    }, intlLocale);
+  };
+
+  // Get the current time at the forecast location
+  const getCurrentTime = () => {
+    if (now === null) return '--:--';
+    return formatAtLocation(now, timezoneOffset, {
+      hour: '2-digit',
+      minute: '2-digit'
+    }, intlLocale);
+  };
+
+  return (
+    <div className="card md:col-span-1 border border-gray-200 rounded-lg p-4 flex flex-col justify-between">
+      {/* Export and Favorite Toggle */}
+      {forecast.city_info && (
+        <div className="flex justify-end gap-1">
+          <ExportMenu forecast={forecast} preferences={preferences} />
+          <button
+            type="button"
+            onClick={onToggleFavorite}
+            className="p-1 cursor-pointer"
+            aria-pressed={isFavorite}
+            aria-label={isFavorite ? t('favorites.remove') : t('favorites.add')}
+          >
+            <Star className={`h-5 w-5 ${isFavorite ? 'text-yellow-500 fill-yellow-500' : 'text-gray-400'}`} />
+          </button>
+        </div>
+      )}
+
+      {/* Weather Icon */}
+      <div className="flex justify-center">
+        <div className="text-center">
+          <Image
+            src={getWeatherIconUrl(icon)}
+            alt={description ?? ''}
+            width={96}
+            height={96}
+            className="weather-icon"
+            priority
+          />
+        </div>
+      </div>
+
+      {/* Temperature */}
+      <div className="text-center mt-4 mb-1">
+        <h2 className="text-3xl font-bold">
+          {current ? formatTemperature(current.main.temp, preferences.temperature, 0, intlLocale) : `-- ${temperatureSymbol(preferences.temperature)}`}
+        </h2>
+      </div>
+
+      {/* Weather Condition */}
+      <div className="text-center mb-6">
+        <p className="text-xl capitalize">{description || t('app.unknown')}</p>
+      </div>
+
+      {/* Date and Time */}
+      <div className="text-center mt-auto">
+        <p className="text-sm">{forecast.city_info?.name || t('app.location')}</p>
+        <p className="text-sm">{getCurrentDate()}</p>
+        <p className="text-sm">{getCurrentTime()}</p>
+      </div>
+    </div>
+  );
+};
+
+export default CurrentWeatherCard;
@@ -0,0 +1,55 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { nairobiForecast } from '../test/fixtures';
+import { DEFAULT_UNIT_PREFERENCES } from '../utils/units';
+import DayDetailDrawer from './DayDetailDrawer';
+
+describe('DayDetailDrawer', () => {
+  const day = nairobiForecast().daily_forecasts[0];
+
+  // The drawer next to the button that opens it, as in the forecast strip
+  const renderWithOpener = () => {
+    const onClose = vi.fn();
+    const ui = (open: boolean) => (
+      <>
+        <button type="button">Show details for Monday</button>
+        <DayDetailDrawer day={open ? day : null} preferences={DEFAULT_UNIT_PREFERENCES} onClose={onClose} />
+      </>
+    );
+    const { rerender } = render(ui(false));
+    const opener = screen.getByRole('button', { name: 'Show details for Monday' });
+    opener.focus();
+    rerender(ui(true));
+    return { opener, onClose, close: () => rerender(ui(false)) };
+  };
+
+  it('moves focus into the drawer and keeps Tab and Shift+Tab there', () => {
+    renderWithOpener();
+    const closeButton = screen.getByRole('button', { name: 'Close details' });
+    expect(document.activeElement).toBe(closeButton);
+
+    fireEvent.keyDown(closeButton, { key: 'Tab' });
+    expect(document.activeElement).toBe(closeButton);
+    fireEvent.keyDown(closeButton, { key: 'Tab', shiftKey: true });
+    expect(document.activeElement).toBe(closeButton);
+  });
+
+  it('pulls focus back in when it has escaped the drawer', () => {
+    const { opener } = renderWithOpener();
+    opener.focus();
+
+    fireEvent.keyDown(opener, { key: 'Tab' });
+    expect(document.activeElement).toBe(screen.getByRole('button', { name: 'Close details' }));
+  });
+
+  it('closes on Escape and returns focus to the day that opened it', () => {
+    const { opener, onClose, close } = renderWithOpener();
+
+    fireEvent.keyDown(document.activeElement ?? window, { key: 'Escape' });
+    expect(onClose).toHaveBeenCalledOnce();
+    close();
+    expect(screen.queryByRole('dialog')).toBeNull();
+    expect(document.activeElement).toBe(opener);
+  });
+});
@@ -0,0 +1,124 @@
+'use client'
+import React, { useEffect, useRef } from 'react';
+import Image from 'next/image';
+import { X } from 'lucide-react';
+import { DailyForecast, getWeatherIconUrl } from '../utils/weather';
+import { summarizeDay } from '../utils/dailySummary';
+import { formatCalendarDate } from '../utils/time';
+import {
+  UnitPreferences,
+  formatPercent,
+  formatPressure,
+  formatRain,
+  formatTemperature,
+  formatVisibility,
+  formatWindSpeed
+} from '../utils/units';
+import { useLocale } from '../hooks/useLocale';
+
+// Elements Tab can reach inside the drawer
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+interface DayDetailDrawerProps {
+  day: DailyForecast | null;
+  preferences: UnitPreferences;
+  onClose: () => void;
+}
+
+const DayDetailDrawer = ({ day, preferences, onClose }: DayDetailDrawerProps) => {
+  const { t, intlLocale } = useLocale();
+  const closeButton = useRef<HTMLButtonElement>(null);
+  const panel = useRef<HTMLDivElement>(null);
+
+  // Move focus into the drawer while it is open, and back to where it was on close
+  const open = day !== null;
+  useEffect(() => {
+    if (!open) return;
+    const previous = document.activeElement as HTMLElement | null;
+    closeButton.current?.focus();
+    return () => previous?.focus();
+  }, [open]);
+
+  // Close on Escape while open, and keep Tab and Shift+Tab cycling within the drawer
+  useEffect(() => {
+    if (!day) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key !== 'Tab' || !panel.current) return;
+
+      const focusable = Array.from(panel.current.querySelectorAll<HTMLElement>(FOCUSABLE));
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      if (!first || !last) return;
+      const inside = panel.current.contains(document.activeElement);
+      if (e.shiftKey && (!inside || document.activeElement === first)) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && (!inside || document.activeElement === last)) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [day, onClose]);
+
+  if (!day) return null;
+
+  const summary = summarizeDay(day);
+  const temp = (celsius: number) => formatTemperature(celsius, preferences.temperature, 1, intlLocale);
+  const pressure = (hectopascals: number) => formatPressure(hectopascals, preferences.pressure, intlLocale);
+
+  const rows: [string, string][] = summary ? [
+    [t('detail.temperature'), `${temp(summary.temperature.min)} / ${temp(summary.temperature.avg)} / ${temp(summary.temperature.max)}`],
+    [t('detail.feelsLike'), t('detail.range', { min: temp(summary.feelsLike.min), max: temp(summary.feelsLike.max) })],
+    [t('detail.pressure'), `${pressure(summary.pressure.min)} / ${pressure(summary.pressure.avg)} / ${pressure(summary.pressure.max)}`],
+    [t('detail.seaLevel'), pressure(summary.seaLevel)],
+    [t('detail.groundLevel'), pressure(summary.groundLevel)],
+    [t('detail.humidity'), formatPercent(summary.humidity, intlLocale)],
+    [t('detail.cloudCover'), formatPercent(summary.cloudCover, intlLocale)],
+    [t('detail.visibility'), formatVisibility(summary.visibility, preferences.visibility, intlLocale)],
+    [t('detail.wind'), formatWindSpeed(summary.windSpeed, preferences.windSpeed, intlLocale)],
+    [t('detail.gust'), formatWindSpeed(summary.gust, preferences.windSpeed, intlLocale)],
+    [t('detail.pop'), formatPercent(summary.pop * 100, intlLocale)],
+    [t('detail.rain'), formatRain(summary.rainTotal, intlLocale)],
+  ] : [];
+
+  return (
+    <div className="fixed inset-0 z-30 flex justify-end" role="dialog" aria-modal="true" aria-labelledby="day-detail-title">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/40" onClick={onClose} />
+
+      <div ref={panel} className="card relative h-full w-full max-w-sm overflow-y-auto bg-white text-gray-900 dark:text-gray-100 p-6 shadow-xl">
+        <div className="flex items-center justify-between mb-4">
+          <h2 id="day-detail-title" className="text-lg font-semibold capitalize">
+            {formatCalendarDate(day.date, { weekday: 'long', day: 'numeric', month: 'short' }, intlLocale)}
+          </h2>
+          <button ref={closeButton} type="button" onClick={onClose} className="p-1 cursor-pointer" aria-label={t('detail.close')}>
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2 mb-4">
+          <Image src={getWeatherIconUrl(day.weather_icon)} alt={day.weather_description} width={64} height={64} className="weather-icon" />
+          <p className="capitalize">{day.weather_description}</p>
+        </div>
+
+        {summary ? (
+          <dl className="grid grid-cols-2 gap-y-2 text-sm">
+            {rows.map(([label, value]) => (
+              <React.Fragment key={label}>
+                <dt className="text-gray-500">{label}</dt>
+                <dd className="text-right">{value}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+        ) : (
+          <p className="text-sm">{t('detail.noHourly')}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DayDetailDrawer;
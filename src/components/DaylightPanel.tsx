@@ -0,0 +1,74 @@
+'use client'
+import React from 'react';
+import { Sunrise, Sunset } from 'lucide-react';
+import { City } from '../utils/weather';
+import { formatDuration, formatUnixAtLocation, sunProgress } from '../utils/time';
+import { formatPercent } from '../utils/units';
+import { useLocale } from '../hooks/useLocale';
+
+interface DaylightPanelProps {
+  city?: City;
+  now: number | null; // Epoch milliseconds
+}
+
+// Arc geometry (in SVG user units)
+const WIDTH = 160;
+const HEIGHT = 90;
+const RADIUS = 70;
+const CENTER_X = WIDTH / 2;
+const HORIZON_Y = HEIGHT - 10;
+
+const formatSunTime = (unixSeconds: number, offset: number, locale: string) => {
+  return formatUnixAtLocation(unixSeconds, offset, {
+    hour: '2-digit',
+    minute: '2-digit'
+  }, locale);
+};
+
+const DaylightPanel = ({ city, now }: DaylightPanelProps) => {
+  const { t, intlLocale } = useLocale();
+  const hasSunTimes = city !== undefined && city.sunset > city.sunrise;
+  const progress = hasSunTimes && now !== null ? sunProgress(now / 1000, city.sunrise, city.sunset) : null;
+
+  // Position along the semicircle: sunrise on the left horizon, sunset on the right
+  const angle = progress !== null ? Math.PI * (1 - progress) : null;
+  const sunX = angle !== null ? CENTER_X + RADIUS * Math.cos(angle) : null;
+  const sunY = angle !== null ? HORIZON_Y - RADIUS * Math.sin(angle) : null;
+
+  return (
+    <div className="card border border-gray-200 rounded-lg p-4">
+      <div className="text-sm mb-2">{t('daylight.title')}</div>
+      <div className="flex justify-center">
+        <svg width={WIDTH} height={HEIGHT} viewBox={`0 0 ${WIDTH} ${HEIGHT}`} aria-hidden="true">
+          <path
+            d={`M ${CENTER_X - RADIUS} ${HORIZON_Y} A ${RADIUS} ${RADIUS} 0 0 1 ${CENTER_X + RADIUS} ${HORIZON_Y}`}
+            fill="none"
+            strokeWidth={2}
+            strokeDasharray="4 4"
+            className="stroke-gray-400"
+          />
+          <line x1={0} y1={HORIZON_Y} x2={WIDTH} y2={HORIZON_Y} strokeWidth={1} className="stroke-gray-400" />
+          {sunX !== null && sunY !== null && (
+            <circle cx={sunX} cy={sunY} r={8} className="fill-yellow-400" />
+          )}
+        </svg>
+      </div>
+      <p className="text-xs text-center mb-2">
+        {!hasSunTimes ? '--' : progress !== null ? t('daylight.elapsed', { percent: formatPercent(progress * 100, intlLocale) }) : t('daylight.sunDown')}
+      </p>
+      <div className="flex justify-between text-xs">
+        <span className="flex items-center gap-1">
+          <Sunrise className="h-4 w-4" aria-label={t('daylight.sunrise')} />
+          {hasSunTimes ? formatSunTime(city.sunrise, city.timezone, intlLocale) : '--'}
+        </span>
+        <span>{hasSunTimes ? formatDuration(city.sunset - city.sunrise) : '--'}</span>
+        <span className="flex items-center gap-1">
+          <Sunset className="h-4 w-4" aria-label={t('daylight.sunset')} />
+          {hasSunTimes ? formatSunTime(city.sunset, city.timezone, intlLocale) : '--'}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default DaylightPanel;
@@ -0,0 +1,86 @@
+'use client'
+import React, { useCallback, useRef, useState } from 'react';
+import { Download } from 'lucide-react';
+import { WeatherForecast } from '../utils/weather';
+import { UnitPreferences } from '../utils/units';
+import { EXPORT_FILE_TYPES, ExportFormat, exportFileName, exportForecast } from '../utils/export';
+import { MessageKey } from '../utils/i18n';
+import { useLocale } from '../hooks/useLocale';
+import { useDismiss } from '../hooks/useDismiss';
+
+interface ExportMenuProps {
+  forecast: WeatherForecast;
+  preferences: UnitPreferences;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, MessageKey> = {
+  csv: 'export.csv',
+  json: 'export.json',
+  ics: 'export.ics',
+};
+
+// How long the object URL behind a download is kept. Some browsers (Safari, older Firefox)
+// only start reading it after click() returns, so revoking it at once can cancel the download.
+const REVOKE_DELAY_MS = 10 * 1000;
+
+// Save text as a file through a temporary object URL
+const downloadFile = (content: string, fileName: string, mime: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.append(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
+
+const ExportMenu = ({ forecast, preferences }: ExportMenuProps) => {
+  const [open, setOpen] = useState(false);
+  const { t, locale } = useLocale();
+  const container = useRef<HTMLDivElement>(null);
+  const trigger = useRef<HTMLButtonElement>(null);
+  useDismiss(open, useCallback(() => setOpen(false), []), container, trigger);
+
+  const handleExport = (format: ExportFormat) => {
+    setOpen(false);
+    downloadFile(
+      exportForecast(format, forecast, preferences, locale),
+      exportFileName(format, forecast),
+      EXPORT_FILE_TYPES[format].mime
+    );
+  };
+
+  return (
+    <div className="relative" ref={container}>
+      <button
+        ref={trigger}
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="p-1 cursor-pointer"
+        aria-label={t('export.menu')}
+        aria-expanded={open}
+        aria-controls="export-menu"
+      >
+        <Download className="h-5 w-5 text-gray-400" />
+      </button>
+
+      {open && (
+        <div id="export-menu" className="absolute right-0 z-20 mt-1 w-48 bg-white text-gray-900 dark:bg-gray-800 dark:text-gray-100 border border-gray-300 dark:border-gray-600 rounded-md shadow-md py-1 flex flex-col">
+          {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((format) => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => handleExport(format)}
+              className="px-3 py-1 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700 cursor-pointer"
+            >
+              {t(FORMAT_LABELS[format])}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
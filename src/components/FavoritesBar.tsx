@@ -0,0 +1,65 @@
+'use client'
+import React from 'react';
+import { Star, X } from 'lucide-react';
+import { CityInfo } from '../utils/weather';
+import { favoriteKey } from '../hooks/useFavorites';
+import { useLocale } from '../hooks/useLocale';
+
+interface FavoritesBarProps {
+  favorites: CityInfo[];
+  activeLocation?: CityInfo | null;
+  comparing: boolean;
+  onSelect: (location: CityInfo) => void;
+  onRemove: (location: CityInfo) => void;
+  onToggleCompare: () => void;
+}
+
+const FavoritesBar = ({ favorites, activeLocation, comparing, onSelect, onRemove, onToggleCompare }: FavoritesBarProps) => {
+  const { t } = useLocale();
+
+  if (favorites.length === 0) return null;
+
+  const activeKey = activeLocation ? favoriteKey(activeLocation) : null;
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      <Star className="h-4 w-4 text-yellow-500 fill-yellow-500" aria-hidden="true" />
+      {favorites.map((favorite) => {
+        const key = favoriteKey(favorite);
+        return (
+          <span
+            key={key}
+            className={`flex items-center border rounded-full text-sm ${key === activeKey ? 'border-blue-500' : 'border-gray-300'}`}
+          >
+            <button
+              type="button"
+              onClick={() => onSelect(favorite)}
+              className="pl-3 pr-1 py-1 cursor-pointer"
+              aria-label={t('favorites.show', { name: favorite.name })}
+            >
+              {favorite.name}
+            </button>
+            <button
+              type="button"
+              onClick={() => onRemove(favorite)}
+              className="pr-2 py-1 cursor-pointer"
+              aria-label={t('favorites.removeNamed', { name: favorite.name })}
+            >
+              <X className="h-3 w-3 text-gray-500" />
+            </button>
+          </span>
+        );
+      })}
+      <button
+        type="button"
+        onClick={onToggleCompare}
+        className="ml-auto px-3 py-1 border border-gray-300 rounded-md text-sm cursor-pointer"
+        aria-pressed={comparing}
+      >
+        {comparing ? t('favorites.hideComparison') : t('favorites.compare')}
+      </button>
+    </div>
+  );
+};
+
+export default FavoritesBar;
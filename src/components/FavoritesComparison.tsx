@@ -0,0 +1,107 @@
+'use client'
+import React, { useState, useEffect } from 'react';
+import Image from 'next/image';
+import { CityInfo, WeatherForecast, WeatherService, getWeatherIconUrl } from '../utils/weather';
+import { favoriteKey } from '../hooks/useFavorites';
+import { currentConditions } from '../utils/currentConditions';
+import { TemperatureUnit, convertTemperature, formatTemperature, temperatureSymbol } from '../utils/units';
+import { formatWeekday } from '../utils/time';
+import { useLocale } from '../hooks/useLocale';
+
+interface FavoritesComparisonProps {
+  favorites: CityInfo[];
+  temperatureUnit: TemperatureUnit;
+  onSelect: (location: CityInfo) => void;
+}
+
+// Per-location fetch result; failures are kept so one bad location doesn't blank the grid
+type ComparisonEntry =
+  | { status: 'loading' }
+  | { status: 'loaded'; data: WeatherForecast }
+  | { status: 'error' };
+
+const FavoritesComparison = ({ favorites, temperatureUnit, onSelect }: FavoritesComparisonProps) => {
+  const [entries, setEntries] = useState<Record<string, ComparisonEntry>>({});
+  const { t, locale, intlLocale } = useLocale();
+
+  // Fetch all favorites in parallel whenever the list (or the language of the descriptions) changes
+  useEffect(() => {
+    let cancelled = false;
+
+    setEntries(Object.fromEntries(favorites.map((favorite) => [favoriteKey(favorite), { status: 'loading' }])));
+
+    Promise.allSettled(
+      favorites.map((favorite) => WeatherService.getForecastCached({ lat: favorite.lat, lon: favorite.lon }, 'metric'))
+    ).then((results) => {
+      if (cancelled) return;
+      setEntries(Object.fromEntries(results.map((result, index) => [
+        favoriteKey(favorites[index]),
+        result.status === 'fulfilled' ? { status: 'loaded', data: result.value.data } : { status: 'error' }
+      ])));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [favorites, locale]);
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+      {favorites.map((favorite) => {
+        const key = favoriteKey(favorite);
+        const entry = entries[key] ?? { status: 'loading' };
+        const today = entry.status === 'loaded' ? entry.data.daily_forecasts[0] : undefined;
+        // Conditions now, as on the current conditions card
+        const current = entry.status === 'loaded' ? currentConditions(entry.data, Date.now()) : undefined;
+        const icon = current?.weather[0]?.icon ?? today?.weather_icon;
+        const description = current?.weather[0]?.description ?? today?.weather_description ?? '';
+
+        return (
+          <button
+            key={key}
+            type="button"
+            onClick={() => onSelect(favorite)}
+            className="card border border-gray-200 rounded-lg p-4 text-left cursor-pointer"
+            aria-label={t('favorites.show', { name: favorite.name })}
+          >
+            <div className="text-sm font-semibold">{favorite.name}</div>
+            <div className="text-xs mb-2">{[favorite.state, favorite.country].filter(Boolean).join(', ')}</div>
+
+            {entry.status === 'loading' && <p className="text-xs">{t('app.loadingShort')}</p>}
+            {entry.status === 'error' && <p className="text-xs text-red-700">{t('favorites.loadFailed')}</p>}
+
+            {entry.status === 'loaded' && today && (
+              <>
+                <div className="flex items-center gap-2">
+                  <Image
+                    src={getWeatherIconUrl(icon)}
+                    alt={description}
+                    width={48}
+                    height={48}
+                    className="weather-icon"
+                  />
+                  <div>
+                    <p className="text-xl font-bold">
+                      {current ? formatTemperature(current.main.temp, temperatureUnit, 0, intlLocale) : '--'}
+                    </p>
+                    <p className="text-xs capitalize">{description}</p>
+                  </div>
+                </div>
+                <ul className="mt-2 text-xs">
+                  {entry.data.daily_forecasts.slice(0, 3).map((day) => (
+                    <li key={day.date} className="flex justify-between">
+                      <span className="capitalize">{formatWeekday(day.date, intlLocale)}</span>
+                      <span>{Math.round(convertTemperature(day.min_temp, temperatureUnit))}-{Math.round(convertTemperature(day.max_temp, temperatureUnit))} {temperatureSymbol(temperatureUnit)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default FavoritesComparison;
@@ -0,0 +1,28 @@
+'use client'
+import React, { Suspense, use } from 'react';
+import { InitialForecast, WeatherForecast } from '../utils/weather';
+
+interface ForecastBoundaryProps {
+  forecast: WeatherForecast | null; // The page's own forecast, once it has one
+  initial: Promise<InitialForecast> | null; // Forecast the server is streaming in, if it found a location
+  render: (forecast: WeatherForecast | null) => React.ReactNode; // Renders a skeleton for null
+}
+
+// Waits for the server's forecast, then renders with whichever forecast is available
+const StreamedForecast = ({ forecast, initial, render }: ForecastBoundaryProps) => {
+  const streamed = initial ? use(initial).data : null;
+  return <>{render(forecast ?? streamed)}</>;
+};
+
+// Renders one section of the dashboard from the page's forecast or, before the page has
+// loaded one, from the forecast the server is streaming in. Each section suspends on its own
+// and shows its skeleton until that forecast arrives.
+const ForecastBoundary = (props: ForecastBoundaryProps) => {
+  return (
+    <Suspense fallback={props.render(null)}>
+      <StreamedForecast {...props} />
+    </Suspense>
+  );
+};
+
+export default ForecastBoundary;
@@ -0,0 +1,156 @@
+'use client'
+import React, { useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { WeatherForecast } from '../utils/weather';
+import { ForecastSnapshot, forecastDrift } from '../utils/forecastHistory';
+import { TemperatureUnit, convertTemperature, formatPercent, formatTemperature, temperatureSymbol } from '../utils/units';
+import { formatAtLocation, formatWeekday } from '../utils/time';
+import { useLocale } from '../hooks/useLocale';
+
+interface ForecastDriftPanelProps {
+  forecast: WeatherForecast | null;
+  snapshots: ForecastSnapshot[];
+  temperatureUnit: TemperatureUnit;
+  onClear: () => void;
+}
+
+// Chart geometry (in SVG user units); the chart scales to the panel's width
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const PADDING_X = 24;
+const PADDING_TOP = 20;
+const PADDING_BOTTOM = 24;
+const BAR_AREA_HEIGHT = 40;
+const BAR_WIDTH = 10;
+// At most this many fetch times are labelled along the bottom
+const MAX_LABELS = 6;
+
+// Format a temperature change in display units, e.g. "+1.5°" or "−2°"
+const formatTemperatureChange = (celsiusFrom: number, celsiusTo: number, unit: TemperatureUnit, locale: string) => {
+  const change = convertTemperature(celsiusTo, unit) - convertTemperature(celsiusFrom, unit);
+  return `${change.toLocaleString(locale, { maximumFractionDigits: 1, signDisplay: 'exceptZero' })}°`;
+};
+
+// Format a change in a 0-1 probability in percentage points, e.g. "+15%"
+const formatPopChange = (from: number, to: number, locale: string) => {
+  return (to - from).toLocaleString(locale, { style: 'percent', maximumFractionDigits: 0, signDisplay: 'exceptZero' });
+};
+
+const ForecastDriftPanel = ({ forecast, snapshots, temperatureUnit, onClear }: ForecastDriftPanelProps) => {
+  const [chosenDate, setChosenDate] = useState<string | null>(null);
+  const { t, intlLocale } = useLocale();
+
+  if (!forecast?.city_info) return null;
+
+  const days = forecast.daily_forecasts;
+  // Tomorrow by default: today's forecast has little time left to drift
+  const date = days.find((day) => day.date === chosenDate)?.date ?? (days[1] ?? days[0]).date;
+  const points = forecastDrift(snapshots, date);
+  const timezoneOffset = forecast.city.timezone;
+  const weekday = formatWeekday(date, intlLocale);
+
+  // Fetch times as wall-clock time at the location, e.g. "Tue 3 PM"
+  const formatFetchTime = (fetchedAt: number) => formatAtLocation(fetchedAt, timezoneOffset, { weekday: 'short', hour: 'numeric' }, intlLocale);
+  const temperature = (celsius: number) => formatTemperature(celsius, temperatureUnit, 0, intlLocale);
+
+  // Scale both temperature lines on one axis above the precipitation bars
+  const temps = points.flatMap((point) => [convertTemperature(point.minTemp, temperatureUnit), convertTemperature(point.maxTemp, temperatureUnit)]);
+  const minTemp = Math.min(...temps);
+  const tempRange = Math.max(...temps) - minTemp || 1;
+  const lineAreaHeight = CHART_HEIGHT - PADDING_TOP - PADDING_BOTTOM - BAR_AREA_HEIGHT;
+  const barBaseline = CHART_HEIGHT - PADDING_BOTTOM;
+
+  const step = points.length > 1 ? (CHART_WIDTH - 2 * PADDING_X) / (points.length - 1) : 0;
+  const xFor = (index: number) => points.length > 1 ? PADDING_X + index * step : CHART_WIDTH / 2;
+  const yForTemp = (celsius: number) => PADDING_TOP + (1 - (convertTemperature(celsius, temperatureUnit) - minTemp) / tempRange) * lineAreaHeight;
+  const labelEvery = Math.ceil(points.length / MAX_LABELS);
+
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  return (
+    <div className="card border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between gap-2 flex-wrap mb-2">
+        <div className="text-sm">{t('history.title', { location: forecast.city_info.name })}</div>
+        <div className="flex items-center gap-2">
+          <select
+            value={date}
+            onChange={(e) => setChosenDate(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+            aria-label={t('history.day')}
+          >
+            {days.map((day) => (
+              <option key={day.date} value={day.date}>{formatWeekday(day.date, intlLocale)}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={onClear}
+            disabled={snapshots.length === 0}
+            className="flex items-center gap-1 px-3 py-1 border border-gray-300 rounded-md text-xs cursor-pointer disabled:cursor-default disabled:opacity-50"
+          >
+            <Trash2 className="h-4 w-4" />
+            {t('history.clear')}
+          </button>
+        </div>
+      </div>
+
+      {points.length < 2 ? (
+        <p className="text-xs">{t('history.noData', { day: weekday })}</p>
+      ) : (
+        <>
+          <p className="text-xs mb-2">
+            {t('history.summary', {
+              time: formatFetchTime(first.fetchedAt),
+              max: formatTemperatureChange(first.maxTemp, last.maxTemp, temperatureUnit, intlLocale),
+              min: formatTemperatureChange(first.minTemp, last.minTemp, temperatureUnit, intlLocale),
+              pop: formatPopChange(first.pop, last.pop, intlLocale)
+            })}
+          </p>
+          <div className="flex items-center gap-3 text-xs mb-1">
+            <span className="flex items-center gap-1"><span className="inline-block w-3 h-0.5 bg-orange-500"></span>{t('history.legendMax', { unit: temperatureSymbol(temperatureUnit) })}</span>
+            <span className="flex items-center gap-1"><span className="inline-block w-3 h-0.5 bg-sky-500"></span>{t('history.legendMin', { unit: temperatureSymbol(temperatureUnit) })}</span>
+            <span className="flex items-center gap-1"><span className="inline-block w-2 h-2 bg-blue-300"></span>{t('hourly.legendPop')}</span>
+          </div>
+          <svg
+            className="w-full"
+            viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+            role="list"
+            aria-label={t('history.chart', { day: weekday })}
+          >
+            {points.map((point, i) => {
+              const popHeight = point.pop * BAR_AREA_HEIGHT;
+              return (
+                <g
+                  key={point.fetchedAt}
+                  tabIndex={0}
+                  role="listitem"
+                  aria-label={t('history.point', {
+                    time: formatFetchTime(point.fetchedAt),
+                    min: temperature(point.minTemp),
+                    max: temperature(point.maxTemp),
+                    pop: formatPercent(point.pop * 100, intlLocale)
+                  })}
+                >
+                  <title>{`${formatFetchTime(point.fetchedAt)}: ${temperature(point.minTemp)} / ${temperature(point.maxTemp)}, ${formatPercent(point.pop * 100, intlLocale)}`}</title>
+                  <rect x={xFor(i) - BAR_WIDTH / 2} y={barBaseline - popHeight} width={BAR_WIDTH} height={popHeight} className="fill-blue-300" />
+                  <circle cx={xFor(i)} cy={yForTemp(point.maxTemp)} r={3} className="fill-orange-500" />
+                  <circle cx={xFor(i)} cy={yForTemp(point.minTemp)} r={3} className="fill-sky-500" />
+                  {(i % labelEvery === 0 || i === points.length - 1) && (
+                    <text x={xFor(i)} y={CHART_HEIGHT - 6} textAnchor="middle" fontSize="11" fill="currentColor">
+                      {formatFetchTime(point.fetchedAt)}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+            <polyline points={points.map((point, i) => `${xFor(i)},${yForTemp(point.maxTemp)}`).join(' ')} fill="none" strokeWidth={2} className="stroke-orange-500" pointerEvents="none" />
+            <polyline points={points.map((point, i) => `${xFor(i)},${yForTemp(point.minTemp)}`).join(' ')} fill="none" strokeWidth={2} className="stroke-sky-500" pointerEvents="none" />
+          </svg>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ForecastDriftPanel;
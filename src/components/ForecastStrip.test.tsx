@@ -0,0 +1,66 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { nairobiForecast } from '../test/fixtures';
+import { axeViolations } from '../test/axe';
+import ForecastStrip from './ForecastStrip';
+
+describe('ForecastStrip', () => {
+  it('shows skeleton cards before a forecast arrives', () => {
+    const { container } = render(
+      <ForecastStrip selectedIndex={0} temperatureUnit="celsius" onSelect={() => {}} onShowDetails={() => {}} />
+    );
+    expect(container.firstElementChild?.getAttribute('aria-hidden')).toBe('true');
+    expect(container.querySelectorAll('.animate-pulse')).toHaveLength(5);
+    expect(screen.queryAllByRole('button')).toHaveLength(0);
+  });
+
+  it('shows a card per day, labelling today and tomorrow', () => {
+    render(
+      <ForecastStrip days={nairobiForecast().daily_forecasts} selectedIndex={0} temperatureUnit="celsius" onSelect={() => {}} onShowDetails={() => {}} />
+    );
+
+    const days = screen.getAllByRole('button', { name: /^Show hourly forecast/ });
+    expect(days.map((day) => day.textContent)).toEqual([
+      'Today19-26 °C',
+      'Tomorrow14-27 °C',
+      'Wednesday13-25 °C',
+      'Thursday13-26 °C',
+      'Friday12-25 °C',
+      'Saturday12-20 °C',
+    ]);
+    expect(screen.getAllByRole('img').map((icon) => icon.getAttribute('alt'))).toEqual(
+      nairobiForecast().daily_forecasts.map((day) => day.weather_description)
+    );
+  });
+
+  it('converts the temperature range to the preferred unit', () => {
+    render(
+      <ForecastStrip days={nairobiForecast().daily_forecasts.slice(0, 1)} selectedIndex={0} temperatureUnit="fahrenheit" onSelect={() => {}} onShowDetails={() => {}} />
+    );
+    expect(screen.getByRole('button', { name: /^Show hourly forecast/ }).textContent).toBe('Today65-80 °F');
+  });
+
+  it('marks the selected day and reports clicks by index', () => {
+    const onSelect = vi.fn();
+    const onShowDetails = vi.fn();
+    render(
+      <ForecastStrip days={nairobiForecast().daily_forecasts} selectedIndex={2} temperatureUnit="celsius" onSelect={onSelect} onShowDetails={onShowDetails} />
+    );
+
+    const days = screen.getAllByRole('button', { name: /^Show hourly forecast/ });
+    expect(days.map((day) => day.getAttribute('aria-pressed'))).toEqual(['false', 'false', 'true', 'false', 'false', 'false']);
+
+    fireEvent.click(days[3]);
+    expect(onSelect).toHaveBeenCalledWith(3);
+    fireEvent.click(screen.getByRole('button', { name: 'Show details for Friday' }));
+    expect(onShowDetails).toHaveBeenCalledWith(4);
+  });
+
+  it('passes axe checks', async () => {
+    const { container } = render(
+      <ForecastStrip days={nairobiForecast().daily_forecasts} selectedIndex={1} temperatureUnit="celsius" onSelect={() => {}} onShowDetails={() => {}} />
+    );
+    expect(await axeViolations(container)).toEqual([]);
+  });
+});
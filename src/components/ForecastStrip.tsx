@@ -0,0 +1,92 @@
+'use client'
+import React from 'react';
+import Image from 'next/image';
+import { Info } from 'lucide-react';
+import { DailyForecast, getWeatherIconUrl } from '../utils/weather';
+import { TemperatureUnit, convertTemperature, temperatureSymbol } from '../utils/units';
+import { formatWeekday } from '../utils/time';
+import { MessageKey } from '../utils/i18n';
+import { useLocale } from '../hooks/useLocale';
+
+interface ForecastStripProps {
+  days?: DailyForecast[];
+  selectedIndex: number;
+  temperatureUnit: TemperatureUnit;
+  onSelect: (index: number) => void;
+  onShowDetails: (index: number) => void;
+}
+
+// Number of skeleton cards shown before any forecast has loaded
+const PLACEHOLDER_COUNT = 5;
+
+// Message keys for the days labelled relative to today; later days show their weekday
+const RELATIVE_DAY_LABELS: MessageKey[] = ['forecast.today', 'forecast.tomorrow'];
+
+const ForecastStrip = ({ days, selectedIndex, temperatureUnit, onSelect, onShowDetails }: ForecastStripProps) => {
+  const { t, intlLocale } = useLocale();
+
+  if (!days) {
+    return (
+      <div className="flex gap-4 overflow-x-auto" aria-hidden="true">
+        {Array.from({ length: PLACEHOLDER_COUNT }, (_, index) => (
+          <div key={index} className="card border border-gray-200 rounded-lg p-4 min-w-28 flex-1 animate-pulse">
+            <div className="h-4 bg-gray-200 rounded mb-4" />
+            <div className="h-16 w-16 mx-auto bg-gray-200 rounded-full" />
+            <div className="h-3 bg-gray-200 rounded mt-4" />
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-1">
+      {days.map((day, index) => {
+        const selected = index === selectedIndex;
+        const weekday = formatWeekday(day.date, intlLocale);
+        return (
+          <div
+            key={day.date}
+            className={`card relative border rounded-lg min-w-28 flex-1 ${selected ? 'border-blue-500' : 'border-gray-200'}`}
+          >
+            <button
+              type="button"
+              onClick={() => onSelect(index)}
+              className="w-full p-4 cursor-pointer"
+              aria-pressed={selected}
+              aria-label={t('forecast.showHourly', { day: weekday })}
+            >
+              <div className="text-center text-sm mb-2 capitalize">
+                {index < RELATIVE_DAY_LABELS.length ? t(RELATIVE_DAY_LABELS[index]) : weekday}
+              </div>
+              <div className="flex justify-center">
+                <Image
+                  src={getWeatherIconUrl(day.weather_icon)}
+                  alt={day.weather_description}
+                  width={64}
+                  height={64}
+                  className="weather-icon"
+                />
+              </div>
+              <div className="text-center mt-4">
+                <p className="text-xs">
+                  {Math.round(convertTemperature(day.min_temp, temperatureUnit))}-{Math.round(convertTemperature(day.max_temp, temperatureUnit))} {temperatureSymbol(temperatureUnit)}
+                </p>
+              </div>
+            </button>
+            <button
+              type="button"
+              onClick={() => onShowDetails(index)}
+              className="absolute top-1 right-1 p-1 cursor-pointer"
+              aria-label={t('forecast.showDetails', { day: weekday })}
+            >
+              <Info className="h-4 w-4 text-gray-500" />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ForecastStrip;
@@ -0,0 +1,178 @@
+'use client'
+import React, { useState } from 'react';
+import { DailyForecast, HourlyForecast } from '../utils/weather';
+import { formatUnixAtLocation, formatWeekday } from '../utils/time';
+import {
+  UnitPreferences,
+  convertTemperature,
+  formatPercent,
+  formatPressure,
+  formatRain,
+  formatTemperature,
+  formatVisibility,
+  formatWindSpeed
+} from '../utils/units';
+import { useLocale } from '../hooks/useLocale';
+
+interface HourlyTimelineProps {
+  day: DailyForecast;
+  preferences: UnitPreferences;
+  timezoneOffset: number; // Location's UTC offset in seconds (City.timezone)
+}
+
+// Chart geometry (in SVG user units)
+const SLOT_WIDTH = 72;
+const CHART_HEIGHT = 180;
+const PADDING_TOP = 20;
+const PADDING_BOTTOM = 28;
+const BAR_AREA_HEIGHT = 50;
+
+
+const HourlyTimeline = ({ day, preferences, timezoneOffset }: HourlyTimelineProps) => {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const { t, intlLocale } = useLocale();
+  const weekday = formatWeekday(day.date, intlLocale);
+
+  // Format an hourly slot's timestamp as a short hour label in the location's timezone
+  // (12- or 24-hour clock as is usual for the locale)
+  const formatHour = (dt: number) => formatUnixAtLocation(dt, timezoneOffset, { hour: 'numeric' }, intlLocale);
+  const temperature = (celsius: number) => formatTemperature(celsius, preferences.temperature, 1, intlLocale);
+  const windSpeed = (metresPerSecond: number) => formatWindSpeed(metresPerSecond, preferences.windSpeed, intlLocale);
+
+  const hours = day.hourly_forecasts;
+  const toDisplayTemp = (celsius: number) => convertTemperature(celsius, preferences.temperature);
+
+  if (!hours || hours.length === 0) {
+    return (
+      <div className="card border border-gray-200 rounded-lg p-4 text-sm text-center">
+        {t('hourly.noData', { day: weekday })}
+      </div>
+    );
+  }
+
+  // Scale temperatures (both lines share one axis) into the area above the bars
+  const temps = hours.flatMap((h) => [toDisplayTemp(h.main.temp), toDisplayTemp(h.main.feels_like)]);
+  const minTemp = Math.min(...temps);
+  const maxTemp = Math.max(...temps);
+  const tempRange = maxTemp - minTemp || 1;
+  const lineAreaHeight = CHART_HEIGHT - PADDING_TOP - PADDING_BOTTOM - BAR_AREA_HEIGHT;
+  const barBaseline = CHART_HEIGHT - PADDING_BOTTOM;
+
+  // Scale rain volume relative to the wettest slot of the day
+  const maxRain = Math.max(...hours.map((h) => h.rain?.['3h'] ?? 0));
+
+  const width = hours.length * SLOT_WIDTH;
+  const xFor = (index: number) => index * SLOT_WIDTH + SLOT_WIDTH / 2;
+  const yForTemp = (temp: number) => PADDING_TOP + (1 - (temp - minTemp) / tempRange) * lineAreaHeight;
+
+  const toPolyline = (pick: (h: HourlyForecast) => number) =>
+    hours.map((h, i) => `${xFor(i)},${yForTemp(toDisplayTemp(pick(h)))}`).join(' ');
+
+  const hovered = hoverIndex !== null ? hours[hoverIndex] : null;
+
+  return (
+    <div className="card border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-2">
+        <div className="text-sm">{t('hourly.title', { day: weekday })}</div>
+        <div className="flex items-center gap-3 text-xs">
+          <span className="flex items-center gap-1"><span className="inline-block w-3 h-0.5 bg-orange-500"></span>{t('hourly.legendTemp')}</span>
+          <span className="flex items-center gap-1"><span className="inline-block w-3 h-0.5 bg-purple-400"></span>{t('hourly.legendFeelsLike')}</span>
+          <span className="flex items-center gap-1"><span className="inline-block w-2 h-2 bg-blue-300"></span>{t('hourly.legendPop')}</span>
+          <span className="flex items-center gap-1"><span className="inline-block w-2 h-2 bg-blue-600"></span>{t('hourly.legendRain')}</span>
+        </div>
+      </div>
+
+      <div className="relative">
+        {/* Scrollable chart */}
+        <div className="overflow-x-auto">
+          <svg
+            width={width}
+            height={CHART_HEIGHT}
+            viewBox={`0 0 ${width} ${CHART_HEIGHT}`}
+            onMouseLeave={() => setHoverIndex(null)}
+            onBlur={() => setHoverIndex(null)}
+            role="list"
+            aria-label={t('hourly.title', { day: weekday })}
+          >
+            {hours.map((h, i) => {
+              const popHeight = h.pop * BAR_AREA_HEIGHT;
+              const rain = h.rain?.['3h'] ?? 0;
+              const rainHeight = maxRain > 0 ? (rain / maxRain) * BAR_AREA_HEIGHT : 0;
+              return (
+                <g
+                  key={h.dt}
+                  onMouseEnter={() => setHoverIndex(i)}
+                  // Focusable so keyboard users can step through the hours and see the tooltip
+                  onFocus={() => setHoverIndex(i)}
+                  tabIndex={0}
+                  role="listitem"
+                  aria-label={`${formatHour(h.dt)}: ${temperature(h.main.temp)}, ${h.weather[0]?.description ?? ''}`}
+                >
+                  {/* Hover target spanning the whole slot */}
+                  <rect
+                    x={i * SLOT_WIDTH}
+                    y={0}
+                    width={SLOT_WIDTH}
+                    height={CHART_HEIGHT}
+                    fill={hoverIndex === i ? 'rgba(156, 163, 175, 0.15)' : 'transparent'}
+                  />
+                  {/* Precipitation probability bar */}
+                  <rect
+                    x={xFor(i) - 14}
+                    y={barBaseline - popHeight}
+                    width={14}
+                    height={popHeight}
+                    className="fill-blue-300"
+                  />
+                  {/* Precipitation volume bar */}
+                  <rect
+                    x={xFor(i)}
+                    y={barBaseline - rainHeight}
+                    width={14}
+                    height={rainHeight}
+                    className="fill-blue-600"
+                  />
+                  <text x={xFor(i)} y={CHART_HEIGHT - 8} textAnchor="middle" fontSize="11" fill="currentColor">
+                    {formatHour(h.dt)}
+                  </text>
+                  <text x={xFor(i)} y={yForTemp(toDisplayTemp(h.main.temp)) - 8} textAnchor="middle" fontSize="11" fill="currentColor">
+                    {Math.round(toDisplayTemp(h.main.temp))}°
+                  </text>
+                </g>
+              );
+            })}
+
+            {/* Temperature and feels-like lines */}
+            <polyline points={toPolyline((h) => h.main.feels_like)} fill="none" strokeWidth={2} strokeDasharray="4 3" className="stroke-purple-400" pointerEvents="none" />
+            <polyline points={toPolyline((h) => h.main.temp)} fill="none" strokeWidth={2} className="stroke-orange-500" pointerEvents="none" />
+            {hours.map((h, i) => (
+              <circle key={h.dt} cx={xFor(i)} cy={yForTemp(toDisplayTemp(h.main.temp))} r={3} className="fill-orange-500" pointerEvents="none" />
+            ))}
+          </svg>
+        </div>
+
+        {/* Tooltip with full hourly detail */}
+        {hovered && (
+          <div className="absolute top-0 right-0 z-10 w-56 text-xs bg-white text-gray-900 dark:bg-gray-800 dark:text-gray-100 border border-gray-300 dark:border-gray-600 rounded-md shadow-md p-3 pointer-events-none">
+            <p className="font-semibold mb-1">
+              {formatUnixAtLocation(hovered.dt, timezoneOffset, { weekday: 'short', hour: '2-digit', minute: '2-digit' }, intlLocale)}
+            </p>
+            <p className="capitalize mb-2">{hovered.weather[0]?.description ?? '--'}</p>
+            <p>{t('hourly.temperature', { value: temperature(hovered.main.temp) })}</p>
+            <p>{t('hourly.feelsLike', { value: temperature(hovered.main.feels_like) })}</p>
+            <p>{t('hourly.minMax', { min: temperature(hovered.main.temp_min), max: temperature(hovered.main.temp_max) })}</p>
+            <p>{t('hourly.humidity', { value: formatPercent(hovered.main.humidity, intlLocale) })}</p>
+            <p>{t('hourly.pressure', { value: formatPressure(hovered.main.pressure, preferences.pressure, intlLocale) })}</p>
+            <p>{t('hourly.clouds', { value: formatPercent(hovered.clouds.all, intlLocale) })}</p>
+            <p>{t('hourly.wind', { speed: windSpeed(hovered.wind.speed), deg: hovered.wind.deg, gust: windSpeed(hovered.wind.gust) })}</p>
+            <p>{t('hourly.visibility', { value: formatVisibility(hovered.visibility, preferences.visibility, intlLocale) })}</p>
+            <p>{t('hourly.pop', { value: formatPercent(hovered.pop * 100, intlLocale) })}</p>
+            <p>{t('hourly.rain', { value: formatRain(hovered.rain?.['3h'] ?? 0, intlLocale) })}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HourlyTimeline;
@@ -0,0 +1,32 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { nairobiForecast } from '../test/fixtures';
+import { axeViolations } from '../test/axe';
+import HumidityCard from './HumidityCard';
+
+describe('HumidityCard', () => {
+  it('shows the humidity as text and as a meter', () => {
+    // First fixture slot: 44%
+    const { container } = render(<HumidityCard humidity={nairobiForecast().daily_forecasts[0].hourly_forecasts[0].main.humidity} />);
+
+    const meter = screen.getByRole('meter', { name: 'Relative humidity' });
+    expect(meter.getAttribute('aria-valuenow')).toBe('44');
+    expect(meter.getAttribute('aria-valuetext')).toBe('44%');
+    expect((container.querySelector('.humidity-progress') as HTMLElement).style.width).toBe('44%');
+  });
+
+  it('shows a placeholder without a meter before a forecast arrives', () => {
+    render(<HumidityCard />);
+    expect(screen.getByText('--')).toBeTruthy();
+    expect(screen.queryByRole('meter')).toBeNull();
+  });
+
+  it('passes axe checks with and without a value for the meter', async () => {
+    const { container, rerender } = render(<HumidityCard humidity={44} />);
+    expect(await axeViolations(container)).toEqual([]);
+
+    rerender(<HumidityCard />);
+    expect(await axeViolations(container)).toEqual([]);
+  });
+});
@@ -0,0 +1,46 @@
+'use client'
+import React from 'react';
+import { formatPercent } from '../utils/units';
+import { useLocale } from '../hooks/useLocale';
+
+interface HumidityCardProps {
+  humidity?: number; // Percent, 0-100
+}
+
+const HumidityCard = ({ humidity }: HumidityCardProps) => {
+  const { t, intlLocale } = useLocale();
+  const value = humidity !== undefined ? formatPercent(humidity, intlLocale) : '--';
+
+  return (
+    <div className="card border border-gray-200 rounded-lg p-4">
+      <div className="text-sm mb-4">{t('humidity.title')}</div>
+      <div className="flex items-center justify-center">
+        <p className="text-2xl font-semibold" aria-hidden={humidity !== undefined}>{value}</p>
+      </div>
+      {/* The meter carries the value for assistive technology; the scale labels are visual only */}
+      <div
+        className="mt-4 bg-gray-200 rounded-full h-2 w-full"
+        {...(humidity !== undefined && {
+          role: 'meter',
+          'aria-label': t('humidity.meter'),
+          'aria-valuemin': 0,
+          'aria-valuemax': 100,
+          'aria-valuenow': Math.round(humidity),
+          'aria-valuetext': value,
+        })}
+      >
+        <div
+          className="humidity-progress"
+          style={{ width: `${humidity ?? 0}%` }}
+        ></div>
+      </div>
+      <div className="flex justify-between mt-1" aria-hidden="true">
+        <span className="text-xs">0</span>
+        <span className="text-xs">50</span>
+        <span className="text-xs">100</span>
+      </div>
+    </div>
+  );
+};
+
+export default HumidityCard;
@@ -0,0 +1,29 @@
+'use client'
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { LOCALE_OPTIONS, isLocale } from '../utils/i18n';
+import { useLocale } from '../hooks/useLocale';
+
+const LanguagePicker = () => {
+  const { locale, setLocale, t } = useLocale();
+
+  return (
+    <label className="flex items-center gap-1">
+      <Languages className="h-5 w-5 text-gray-500" aria-hidden="true" />
+      <span className="sr-only">{t('language.label')}</span>
+      <select
+        value={locale}
+        onChange={(e) => {
+          if (isLocale(e.target.value)) setLocale(e.target.value);
+        }}
+        className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+      >
+        {LOCALE_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value} lang={option.value}>{option.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default LanguagePicker;
@@ -0,0 +1,91 @@
+'use client'
+import React, { createContext, useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  DEFAULT_LOCALE,
+  Locale,
+  MessageKey,
+  MessageValues,
+  intlLocaleOf,
+  isLocale,
+  matchLocale,
+  translate
+} from '../utils/i18n';
+import { WeatherService } from '../utils/weather';
+
+const STORAGE_KEY = 'weatherapp:locale';
+
+// Interface for the value shared through LocaleContext
+export interface LocaleContextValue {
+  locale: Locale;
+  intlLocale: string; // BCP 47 tag for Intl formatting
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, values?: MessageValues) => string;
+  ready: boolean; // False until the saved or browser language has been read, after mount
+}
+
+export const LocaleContext = createContext<LocaleContextValue>({
+  locale: DEFAULT_LOCALE,
+  intlLocale: intlLocaleOf(DEFAULT_LOCALE),
+  setLocale: () => {},
+  t: (key, values) => translate(DEFAULT_LOCALE, key, values),
+  ready: true,
+});
+
+// Saved choice, else the browser's preferred languages
+const loadLocale = (): Locale => {
+  try {
+    const saved = window.localStorage.getItem(STORAGE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch (error) {
+    console.error('Error loading language:', error);
+  }
+  return matchLocale(navigator.languages ?? [navigator.language]);
+};
+
+const saveLocale = (locale: Locale) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, locale);
+  } catch (error) {
+    console.error('Error saving language:', error);
+  }
+};
+
+// Provides the UI language and translator. The language is also handed to WeatherService
+// before any re-render, so refetches triggered by a language change already use it. Until
+// `ready`, the language is only the default: components hold their first fetch until then
+// rather than fetching in the default language and again in the real one.
+const LocaleProvider = ({ children }: { children: React.ReactNode }) => {
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+  const [ready, setReady] = useState(false);
+
+  // Load after mount so server and client render the same initial markup
+  useEffect(() => {
+    const initial = loadLocale();
+    WeatherService.setLanguage(initial);
+    setLocaleState(initial);
+    setReady(true);
+  }, []);
+
+  // Keep <html lang> in step for screen readers and hyphenation
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    WeatherService.setLanguage(next);
+    saveLocale(next);
+    setLocaleState(next);
+  }, []);
+
+  const value = useMemo<LocaleContextValue>(() => ({
+    locale,
+    intlLocale: intlLocaleOf(locale),
+    setLocale,
+    t: (key, values) => translate(locale, key, values),
+    ready,
+  }), [locale, setLocale, ready]);
+
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+};
+
+export default LocaleProvider;
@@ -0,0 +1,160 @@
+'use client'
+import React, { useState, useEffect, useId, useRef } from 'react';
+import { CityInfo, WeatherService } from '../utils/weather';
+import { useLocale } from '../hooks/useLocale';
+
+interface LocationAutocompleteProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  onSelect: (location: CityInfo) => void;
+  placeholder?: string; // Defaults to the translated "Enter city name..."
+}
+
+// Delay before querying Nominatim after the user stops typing
+const DEBOUNCE_MS = 350;
+const MIN_QUERY_LENGTH = 2;
+
+// Format a suggestion as "Name, State, Country"
+const formatLocation = (location: CityInfo) => {
+  return [location.name, location.state, location.country].filter(Boolean).join(', ');
+};
+
+const LocationAutocomplete = ({ id, value, onChange, onSelect, placeholder }: LocationAutocompleteProps) => {
+  const { t } = useLocale();
+  const [suggestions, setSuggestions] = useState<CityInfo[]>([]);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [searching, setSearching] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Unique per instance, since the first-run prompt and the search bar each have one
+  const listId = `${useId()}-suggestions`;
+  // Set when a suggestion is picked so the resulting value change doesn't trigger a new lookup
+  const skipNextLookup = useRef(false);
+
+  // Debounced lookup whenever the input text changes
+  useEffect(() => {
+    if (skipNextLookup.current) {
+      skipNextLookup.current = false;
+      return;
+    }
+
+    // Only look up text the user is typing, not values set programmatically (e.g. after geolocation)
+    const query = value.trim();
+    if (query.length < MIN_QUERY_LENGTH || document.activeElement !== inputRef.current) {
+      setSuggestions([]);
+      setOpen(false);
+      setSearching(false);
+      return;
+    }
+
+    // Aborted when the text changes again, so only the latest query's results are shown
+    const controller = new AbortController();
+    const cancelled = () => controller.signal.aborted;
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const results = await WeatherService.searchLocations(query, { signal: controller.signal });
+        if (cancelled()) return;
+        setSuggestions(results);
+        setActiveIndex(-1);
+        setOpen(results.length > 0);
+      } catch {
+        if (!cancelled()) setSuggestions([]);
+      } finally {
+        if (!cancelled()) setSearching(false);
+      }
+    }, DEBOUNCE_MS);
+
+    // An aborted lookup skips its own reset of `searching`, so reset it here
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+      setSearching(false);
+    };
+  }, [value]);
+
+  const selectSuggestion = (location: CityInfo) => {
+    skipNextLookup.current = location.name !== value;
+    onChange(location.name);
+    setOpen(false);
+    setSuggestions([]);
+    setActiveIndex(-1);
+    onSelect(location);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!open || suggestions.length === 0) return;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex((index) => (index + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex((index) => (index <= 0 ? suggestions.length - 1 : index - 1));
+        break;
+      case 'Enter':
+        // Only intercept Enter when a suggestion is highlighted; otherwise let the form submit
+        if (activeIndex >= 0) {
+          e.preventDefault();
+          selectSuggestion(suggestions[activeIndex]);
+        }
+        break;
+      case 'Escape':
+        setOpen(false);
+        setActiveIndex(-1);
+        break;
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        ref={inputRef}
+        id={id}
+        type="text"
+        placeholder={placeholder ?? t('search.placeholder')}
+        className="w-full px-4 py-2 border border-gray-300 rounded-md"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setOpen(suggestions.length > 0)}
+        onBlur={() => setOpen(false)}
+        role="combobox"
+        aria-expanded={open}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+        aria-busy={searching}
+      />
+
+      {open && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-20 left-0 right-0 mt-1 bg-white text-gray-900 dark:bg-gray-800 dark:text-gray-100 border border-gray-300 dark:border-gray-600 rounded-md shadow-md overflow-hidden"
+        >
+          {suggestions.map((location, index) => (
+            <li
+              key={`${location.lat},${location.lon}`}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={`px-4 py-2 text-sm cursor-pointer ${index === activeIndex ? 'bg-blue-100 dark:bg-blue-900' : 'hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+              // Keep focus in the input so the blur handler doesn't close the list before the click lands
+              onMouseDown={(e) => e.preventDefault()}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => selectSuggestion(location)}
+            >
+              {formatLocation(location)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LocationAutocomplete;
@@ -0,0 +1,47 @@
+'use client'
+import React, { useState } from 'react';
+import { MapPin } from 'lucide-react';
+import { ForecastLocation } from '../utils/weather';
+import { useLocale } from '../hooks/useLocale';
+import LocationAutocomplete from './LocationAutocomplete';
+
+interface LocationPromptProps {
+  onChoose: (location: ForecastLocation) => void;
+}
+
+// First-run prompt shown when no location could be worked out automatically
+const LocationPrompt = ({ onChoose }: LocationPromptProps) => {
+  const { t } = useLocale();
+  const [city, setCity] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!city.trim()) return;
+    onChoose({ city: city.trim() });
+  };
+
+  return (
+    <div className="card border border-gray-200 rounded-lg p-6 max-w-md mx-auto flex flex-col gap-4 text-center">
+      <MapPin className="h-8 w-8 mx-auto text-gray-500" aria-hidden="true" />
+      <h2 className="text-xl font-semibold">{t('locationPrompt.title')}</h2>
+      <p className="text-sm text-gray-600">{t('locationPrompt.body')}</p>
+      <form onSubmit={handleSubmit} className="flex items-center gap-2 text-left">
+        <div className="flex-grow">
+          <LocationAutocomplete
+            value={city}
+            onChange={setCity}
+            onSelect={(location) => onChoose({ lat: location.lat, lon: location.lon })}
+          />
+        </div>
+        <button
+          type="submit"
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm whitespace-nowrap cursor-pointer"
+        >
+          {t('locationPrompt.submit')}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LocationPrompt;
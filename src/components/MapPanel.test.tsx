@@ -0,0 +1,22 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import MapPanel from './MapPanel';
+
+vi.mock('leaflet/dist/leaflet.css', () => ({}));
+
+describe('MapPanel', () => {
+  it('picks the map centre from a button, for keyboard users', async () => {
+    const onPick = vi.fn();
+    render(<MapPanel center={{ lat: -1.28, lon: 36.82 }} recent={[]} temperatureUnit="celsius" onPick={onPick} onSelectRecent={() => {}} />);
+
+    const button = screen.getByRole('button', { name: 'Forecast for the map centre' });
+    await waitFor(() => expect(button).toHaveProperty('disabled', false));
+    fireEvent.click(button);
+
+    expect(onPick).toHaveBeenCalledOnce();
+    const [lat, lon] = onPick.mock.calls[0];
+    expect(lat).toBeCloseTo(-1.28);
+    expect(lon).toBeCloseTo(36.82);
+  });
+});
@@ -0,0 +1,150 @@
+'use client'
+import React, { useEffect, useRef, useState } from 'react';
+import type { LayerGroup, Map as LeafletMap } from 'leaflet';
+import { Crosshair } from 'lucide-react';
+import 'leaflet/dist/leaflet.css';
+import { getWeatherIconUrl } from '../utils/weather';
+import { TemperatureUnit, formatTemperature } from '../utils/units';
+import { RecentLocation } from '../hooks/useRecentLocations';
+import { useLocale } from '../hooks/useLocale';
+
+type Leaflet = typeof import('leaflet');
+
+interface MapPanelProps {
+  center?: { lat: number; lon: number } | null; // Re-centres the map whenever it changes
+  recent: RecentLocation[];
+  temperatureUnit: TemperatureUnit;
+  onPick: (lat: number, lon: number) => void;
+  onSelectRecent: (location: RecentLocation) => void;
+}
+
+// Tile source; point it at a local tile server to run without network access
+const TILE_URL = process.env.NEXT_PUBLIC_MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+const TILE_ATTRIBUTION = process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION
+  || '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+// Whole-world view shown before any location is loaded
+const WORLD_CENTER: [number, number] = [20, 0];
+const WORLD_ZOOM = 2;
+// Minimum zoom when centring on a location
+const LOCATION_ZOOM = 8;
+
+// Marker content: the location's weather icon above its temperature
+const createMarkerElement = (location: RecentLocation, temperature: string) => {
+  const element = document.createElement('div');
+  element.className = 'flex flex-col items-center bg-white/90 border border-gray-300 rounded-md shadow px-1 text-xs font-semibold text-gray-800';
+  const icon = document.createElement('img');
+  icon.src = getWeatherIconUrl(location.icon);
+  icon.alt = '';
+  icon.className = 'weather-icon';
+  icon.width = 32;
+  icon.height = 32;
+  const label = document.createElement('span');
+  label.textContent = temperature;
+  element.append(icon, label);
+  return element;
+};
+
+const MapPanel = ({ center, recent, temperatureUnit, onPick, onSelectRecent }: MapPanelProps) => {
+  const { t, intlLocale } = useLocale();
+  const container = useRef<HTMLDivElement>(null);
+  const [leaflet, setLeaflet] = useState<Leaflet | null>(null);
+  const map = useRef<LeafletMap | null>(null);
+  const markers = useRef<LayerGroup | null>(null);
+  // Latest callbacks, so the map's event handlers don't need rebinding on every render
+  const callbacks = useRef({ onPick, onSelectRecent });
+  useEffect(() => {
+    callbacks.current = { onPick, onSelectRecent };
+  });
+
+  // Leaflet touches `window` on import, so load it only in the browser
+  useEffect(() => {
+    let cancelled = false;
+    import('leaflet').then((module) => {
+      if (!cancelled) setLeaflet(module);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Create the map once Leaflet is loaded
+  useEffect(() => {
+    if (!leaflet || !container.current) return;
+    const instance = leaflet.map(container.current, { worldCopyJump: true }).setView(WORLD_CENTER, WORLD_ZOOM);
+    leaflet.tileLayer(TILE_URL, { attribution: TILE_ATTRIBUTION, maxZoom: 19 }).addTo(instance);
+    markers.current = leaflet.layerGroup().addTo(instance);
+    instance.on('click', (event) => {
+      const { lat, lng } = event.latlng.wrap();
+      callbacks.current.onPick(lat, lng);
+    });
+    map.current = instance;
+    return () => {
+      instance.remove();
+      map.current = null;
+      markers.current = null;
+    };
+  }, [leaflet]);
+
+  // Re-centre on the shown location whenever its coordinates change
+  const centerLat = center?.lat;
+  const centerLon = center?.lon;
+  useEffect(() => {
+    if (!leaflet || !map.current || centerLat === undefined || centerLon === undefined) return;
+    map.current.setView([centerLat, centerLon], Math.max(map.current.getZoom(), LOCATION_ZOOM));
+  }, [leaflet, centerLat, centerLon]);
+
+  // Markers for recently viewed locations with their last seen temperature and icon
+  useEffect(() => {
+    if (!leaflet || !markers.current) return;
+    const layer = markers.current;
+    layer.clearLayers();
+    recent.forEach((location) => {
+      const temperature = formatTemperature(location.temp, temperatureUnit, 0, intlLocale);
+      leaflet.marker([location.lat, location.lon], {
+        icon: leaflet.divIcon({
+          html: createMarkerElement(location, temperature),
+          className: '',
+          iconSize: [44, 52],
+          iconAnchor: [22, 52],
+        }),
+        title: t('map.recent', { name: location.name, temperature }),
+        alt: location.name,
+      })
+        .on('click', () => callbacks.current.onSelectRecent(location))
+        .addTo(layer);
+    });
+  }, [leaflet, recent, temperatureUnit, intlLocale, t]);
+
+  // The keyboard alternative to clicking: the map pans with the arrow keys once focused,
+  // and this picks whatever is under the crosshair
+  const pickCenter = () => {
+    if (!map.current) return;
+    const { lat, lng } = map.current.getCenter().wrap();
+    onPick(lat, lng);
+  };
+
+  return (
+    <div className="card border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <span className="text-sm">{t('map.title')}</span>
+        <span className="text-xs text-gray-500">{t('map.hint')}</span>
+        <button
+          type="button"
+          onClick={pickCenter}
+          disabled={!leaflet}
+          className="flex items-center gap-1 px-3 py-1 border border-gray-300 rounded-md text-xs cursor-pointer disabled:cursor-default disabled:opacity-50"
+        >
+          <Crosshair className="h-4 w-4" />
+          {t('map.useCenter')}
+        </button>
+      </div>
+      <div className="relative">
+        <div ref={container} className="h-72 w-full rounded-md z-0" />
+        <Crosshair className="absolute left-1/2 top-1/2 h-6 w-6 -translate-x-1/2 -translate-y-1/2 text-gray-700 pointer-events-none z-10" aria-hidden="true" />
+      </div>
+    </div>
+  );
+};
+
+export default MapPanel;
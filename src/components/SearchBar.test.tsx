@@ -0,0 +1,156 @@
+// @vitest-environment jsdom
+import React, { useState } from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { CityInfo, WeatherService } from '../utils/weather';
+import { DEFAULT_UNIT_PREFERENCES } from '../utils/units';
+import { MOMBASA, NAIROBI } from '../test/fixtures';
+import { axeViolations } from '../test/axe';
+import SearchBar from './SearchBar';
+
+vi.mock('../utils/weather', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../utils/weather')>();
+  return { ...actual, WeatherService: { ...actual.WeatherService, searchLocations: vi.fn() } };
+});
+
+const searchLocations = vi.mocked(WeatherService.searchLocations);
+
+interface HarnessProps {
+  onSubmit?: (city: string) => void;
+  onSelectLocation?: (location: CityInfo) => void;
+  onLocate?: () => void;
+  onChangePreference?: () => void;
+  locating?: boolean;
+}
+
+// The search bar with its text held in state, as the page holds it
+const Harness = ({ onSubmit = () => {}, onSelectLocation = () => {}, onLocate = () => {}, onChangePreference = () => {}, locating = false }: HarnessProps) => {
+  const [value, setValue] = useState('');
+  return (
+    <SearchBar
+      id="city-search"
+      value={value}
+      onChange={setValue}
+      onSubmit={onSubmit}
+      onSelectLocation={onSelectLocation}
+      onLocate={onLocate}
+      locating={locating}
+      preferences={DEFAULT_UNIT_PREFERENCES}
+      onChangePreference={onChangePreference}
+    />
+  );
+};
+
+// Focus the search box and type into it
+const type = (text: string) => {
+  const input = screen.getByPlaceholderText('Enter city name...');
+  input.focus();
+  fireEvent.change(input, { target: { value: text } });
+  return input as HTMLInputElement;
+};
+
+describe('SearchBar', () => {
+  beforeEach(() => {
+    searchLocations.mockReset();
+  });
+
+  it('suggests places for the typed text and picks one', async () => {
+    searchLocations.mockResolvedValue([MOMBASA, NAIROBI]);
+    const onSelectLocation = vi.fn();
+    render(<Harness onSelectLocation={onSelectLocation} />);
+
+    const input = type('Mo');
+    const options = within(await screen.findByRole('listbox')).getAllByRole('option');
+    expect(searchLocations).toHaveBeenCalledWith('Mo', expect.objectContaining({ signal: expect.any(AbortSignal) }));
+    expect(options.map((option) => option.textContent)).toEqual(['Mombasa, Mombasa County, KE', 'Nairobi, KE']);
+    expect(input.getAttribute('aria-expanded')).toBe('true');
+
+    fireEvent.click(options[0]);
+    expect(onSelectLocation).toHaveBeenCalledWith(MOMBASA);
+    expect(input.value).toBe('Mombasa');
+    expect(screen.queryByRole('listbox')).toBeNull();
+  });
+
+  it('picks a suggestion with the keyboard', async () => {
+    searchLocations.mockResolvedValue([MOMBASA, NAIROBI]);
+    const onSelectLocation = vi.fn();
+    render(<Harness onSelectLocation={onSelectLocation} />);
+
+    const input = type('Na');
+    await screen.findByRole('listbox');
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+    expect(input.getAttribute('aria-activedescendant')).toMatch(/-1$/);
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(onSelectLocation).toHaveBeenCalledWith(NAIROBI);
+  });
+
+  it('shows no suggestions when the lookup fails', async () => {
+    searchLocations.mockRejectedValue(new Error('offline'));
+    render(<Harness />);
+
+    const input = type('Kisumu');
+    await waitFor(() => expect(searchLocations).toHaveBeenCalled());
+    await waitFor(() => expect(input.getAttribute('aria-busy')).toBe('false'));
+    expect(screen.queryByRole('listbox')).toBeNull();
+  });
+
+  it('stops showing a lookup as busy when the text is cleared mid-search', async () => {
+    searchLocations.mockReturnValue(new Promise(() => {}));
+    render(<Harness />);
+
+    const input = type('Mombasa');
+    await waitFor(() => expect(input.getAttribute('aria-busy')).toBe('true'));
+    type('');
+    await waitFor(() => expect(input.getAttribute('aria-busy')).toBe('false'));
+  });
+
+  it('does not look up single characters', async () => {
+    render(<Harness />);
+    type('K');
+    await new Promise((resolve) => setTimeout(resolve, 400));
+    expect(searchLocations).not.toHaveBeenCalled();
+  });
+
+  it('submits the typed city, but not an empty search', () => {
+    const onSubmit = vi.fn();
+    render(<Harness onSubmit={onSubmit} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Search for city' }));
+    expect(onSubmit).not.toHaveBeenCalled();
+
+    type('Eldoret');
+    fireEvent.submit(screen.getByRole('search'));
+    expect(onSubmit).toHaveBeenCalledWith('Eldoret');
+  });
+
+  it('asks for the current location unless it is already locating', () => {
+    const onLocate = vi.fn();
+    const { rerender } = render(<Harness onLocate={onLocate} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Get weather for current location' }));
+    expect(onLocate).toHaveBeenCalledOnce();
+
+    rerender(<Harness onLocate={onLocate} locating />);
+    expect((screen.getByRole('button', { name: 'Get weather for current location' }) as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it('passes axe checks with the suggestions open', async () => {
+    searchLocations.mockResolvedValue([MOMBASA, NAIROBI]);
+    const { container } = render(<Harness />);
+    expect(await axeViolations(container)).toEqual([]);
+
+    const input = type('Mo');
+    await screen.findByRole('listbox');
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it('switches the temperature unit', () => {
+    const onChangePreference = vi.fn();
+    render(<Harness onChangePreference={onChangePreference} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Switch temperature units to Fahrenheit' }));
+    expect(onChangePreference).toHaveBeenCalledWith('temperature', 'fahrenheit');
+  });
+});
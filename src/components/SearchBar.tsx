@@ -0,0 +1,101 @@
+'use client'
+import React from 'react';
+import { Search, MapPin } from 'lucide-react';
+import { CityInfo } from '../utils/weather';
+import { UnitPreferences, temperatureSymbol } from '../utils/units';
+import { useLocale } from '../hooks/useLocale';
+import LocationAutocomplete from './LocationAutocomplete';
+import UnitSettings from './UnitSettings';
+import LanguagePicker from './LanguagePicker';
+import ContrastToggle from './ContrastToggle';
+import ThemePicker from './ThemePicker';
+
+interface SearchBarProps {
+  id: string; // Id of the search input, so recovery actions can focus it
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: (city: string) => void;
+  onSelectLocation: (location: CityInfo) => void;
+  onLocate: () => void;
+  locating: boolean;
+  preferences: UnitPreferences;
+  onChangePreference: <K extends keyof UnitPreferences>(quantity: K, unit: UnitPreferences[K]) => void;
+}
+
+const SearchBar = ({
+  id,
+  value,
+  onChange,
+  onSubmit,
+  onSelectLocation,
+  onLocate,
+  locating,
+  preferences,
+  onChangePreference,
+}: SearchBarProps) => {
+  const { t } = useLocale();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!value.trim()) return;
+    onSubmit(value);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-2" role="search">
+      {/* Search Input */}
+      <div className="flex-grow basis-full sm:basis-auto">
+        <LocationAutocomplete
+          id={id}
+          value={value}
+          onChange={onChange}
+          onSelect={onSelectLocation}
+        />
+      </div>
+
+      {/* Search Button */}
+      <button
+        type="submit"
+        className="p-2"
+        aria-label={t('search.submit')}
+      >
+        <Search className="h-6 w-6 text-gray-500 cursor-pointer" />
+      </button>
+
+      {/* Current Location Button */}
+      <button
+        type="button"
+        onClick={onLocate}
+        className="p-2"
+        disabled={locating}
+        aria-label={t('search.currentLocation')}
+      >
+        <MapPin className={`h-6 w-6 ${locating ? 'text-gray-300' : 'text-gray-500'} cursor-pointer`} />
+      </button>
+
+      {/* Units Toggle */}
+      <button
+        type="button"
+        onClick={() => onChangePreference('temperature', preferences.temperature === 'celsius' ? 'fahrenheit' : 'celsius')}
+        className="px-3 py-1 border border-gray-300 rounded-md text-sm"
+        aria-label={t('units.switchTemperature', { unit: t(preferences.temperature === 'celsius' ? 'units.fahrenheit' : 'units.celsius') })}
+      >
+        {temperatureSymbol(preferences.temperature)}
+      </button>
+
+      {/* Unit Settings */}
+      <UnitSettings preferences={preferences} onChange={onChangePreference} />
+
+      {/* Theme */}
+      <ThemePicker />
+
+      {/* High Contrast */}
+      <ContrastToggle />
+
+      {/* Language */}
+      <LanguagePicker />
+    </form>
+  );
+};
+
+export default SearchBar;
@@ -0,0 +1,14 @@
+'use client'
+import { useEffect } from 'react';
+import { registerServiceWorker } from '../utils/serviceWorker';
+
+// Registers the offline service worker once the app has mounted
+const ServiceWorkerRegistration = () => {
+  useEffect(() => {
+    registerServiceWorker();
+  }, []);
+
+  return null;
+};
+
+export default ServiceWorkerRegistration;
@@ -0,0 +1,40 @@
+'use client'
+import React from 'react';
+import { Moon, Sun } from 'lucide-react';
+import { THEME_MODES, ThemeMode, isThemeMode } from '../utils/theme';
+import { MessageKey } from '../utils/i18n';
+import { useTheme } from '../hooks/useTheme';
+import { useLocale } from '../hooks/useLocale';
+
+const MODE_LABELS: Record<ThemeMode, MessageKey> = {
+  light: 'theme.light',
+  dark: 'theme.dark',
+  system: 'theme.system',
+  auto: 'theme.auto',
+};
+
+const ThemePicker = () => {
+  const { mode, theme, setMode } = useTheme();
+  const { t } = useLocale();
+  const Icon = theme === 'dark' ? Moon : Sun;
+
+  return (
+    <label className="flex items-center gap-1">
+      <Icon className="h-5 w-5 text-gray-500" aria-hidden="true" />
+      <span className="sr-only">{t('theme.label')}</span>
+      <select
+        value={mode}
+        onChange={(e) => {
+          if (isThemeMode(e.target.value)) setMode(e.target.value);
+        }}
+        className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+      >
+        {THEME_MODES.map((option) => (
+          <option key={option} value={option}>{t(MODE_LABELS[option])}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default ThemePicker;
@@ -0,0 +1,123 @@
+'use client'
+import React, { createContext, useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  DEFAULT_THEME_MODE,
+  ResolvedTheme,
+  SUN_TIMES_STORAGE_KEY,
+  SunTimes,
+  THEME_STORAGE_KEY,
+  ThemeMode,
+  isThemeMode,
+  resolveTheme
+} from '../utils/theme';
+import { useNow } from '../hooks/useNow';
+
+// Interface for the value shared through ThemeContext
+export interface ThemeContextValue {
+  mode: ThemeMode;
+  theme: ResolvedTheme; // What is actually shown
+  setMode: (mode: ThemeMode) => void;
+  setSunTimes: (sunTimes: SunTimes) => void; // Shown location's sun times, for 'auto'
+}
+
+export const ThemeContext = createContext<ThemeContextValue>({
+  mode: DEFAULT_THEME_MODE,
+  theme: 'light',
+  setMode: () => {},
+  setSunTimes: () => {},
+});
+
+const SYSTEM_DARK_QUERY = '(prefers-color-scheme: dark)';
+
+const isSunTimes = (value: unknown): value is SunTimes => {
+  if (typeof value !== 'object' || value === null) return false;
+  const times = value as Record<string, unknown>;
+  return typeof times.sunrise === 'number' && typeof times.sunset === 'number';
+};
+
+const loadMode = (): ThemeMode => {
+  try {
+    const saved = window.localStorage.getItem(THEME_STORAGE_KEY);
+    if (isThemeMode(saved)) return saved;
+  } catch (error) {
+    console.error('Error loading theme:', error);
+  }
+  return DEFAULT_THEME_MODE;
+};
+
+// Sun times of the last shown location, ignoring missing or corrupt data
+const loadSunTimes = (): SunTimes | null => {
+  try {
+    const raw = window.localStorage.getItem(SUN_TIMES_STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : null;
+    return isSunTimes(parsed) ? parsed : null;
+  } catch (error) {
+    console.error('Error loading sun times:', error);
+    return null;
+  }
+};
+
+const save = (key: string, value: string) => {
+  try {
+    window.localStorage.setItem(key, value);
+  } catch (error) {
+    console.error('Error saving theme:', error);
+  }
+};
+
+// Provides the colour theme. The initial theme is applied before first paint by
+// THEME_INIT_SCRIPT in the layout; this takes over once mounted.
+const ThemeProvider = ({ children }: { children: React.ReactNode }) => {
+  const [mode, setModeState] = useState<ThemeMode>(DEFAULT_THEME_MODE);
+  const [sunTimes, setSunTimesState] = useState<SunTimes | null>(null);
+  const [systemDark, setSystemDark] = useState(false);
+  // Re-resolves 'auto' as sunrise and sunset pass
+  const now = useNow();
+
+  // Load after mount so server and client render the same initial markup
+  useEffect(() => {
+    setModeState(loadMode());
+    setSunTimesState(loadSunTimes());
+  }, []);
+
+  // Follow the operating system's setting as it changes
+  useEffect(() => {
+    const query = window.matchMedia(SYSTEM_DARK_QUERY);
+    setSystemDark(query.matches);
+    const handleChange = (e: MediaQueryListEvent) => setSystemDark(e.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  const theme = resolveTheme(mode, systemDark, sunTimes, (now ?? 0) / 1000);
+
+  // Skipped until mounted, so the theme set by the init script isn't overwritten by defaults
+  useEffect(() => {
+    if (now === null) return;
+    document.documentElement.dataset.theme = theme;
+  }, [theme, now]);
+
+  const setMode = useCallback((next: ThemeMode) => {
+    save(THEME_STORAGE_KEY, next);
+    setModeState(next);
+  }, []);
+
+  const setSunTimes = useCallback((next: SunTimes) => {
+    setSunTimesState((current) => {
+      if (current?.sunrise === next.sunrise && current?.sunset === next.sunset) return current;
+      save(SUN_TIMES_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const value = useMemo<ThemeContextValue>(() => ({
+    mode,
+    theme,
+    setMode,
+    setSunTimes,
+  }), [mode, theme, setMode, setSunTimes]);
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+};
+
+export default ThemeProvider;
@@ -0,0 +1,64 @@
+'use client'
+import React, { useCallback, useRef, useState } from 'react';
+import { Settings } from 'lucide-react';
+import { UNIT_OPTIONS, UnitPreferences } from '../utils/units';
+import { MessageKey } from '../utils/i18n';
+import { useLocale } from '../hooks/useLocale';
+import { useDismiss } from '../hooks/useDismiss';
+
+interface UnitSettingsProps {
+  preferences: UnitPreferences;
+  onChange: <K extends keyof UnitPreferences>(quantity: K, unit: UnitPreferences[K]) => void;
+}
+
+const QUANTITY_LABELS: Record<keyof UnitPreferences, MessageKey> = {
+  temperature: 'units.temperature',
+  windSpeed: 'units.windSpeed',
+  pressure: 'units.pressure',
+  visibility: 'units.visibility',
+};
+
+const UnitSettings = ({ preferences, onChange }: UnitSettingsProps) => {
+  const [open, setOpen] = useState(false);
+  const { t } = useLocale();
+  const container = useRef<HTMLDivElement>(null);
+  const trigger = useRef<HTMLButtonElement>(null);
+  useDismiss(open, useCallback(() => setOpen(false), []), container, trigger);
+
+  return (
+    <div className="relative" ref={container}>
+      <button
+        ref={trigger}
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="p-2"
+        aria-label={t('units.settings')}
+        aria-expanded={open}
+        aria-controls="unit-settings"
+      >
+        <Settings className="h-6 w-6 text-gray-500 cursor-pointer" />
+      </button>
+
+      {open && (
+        <div id="unit-settings" className="absolute right-0 z-20 mt-1 w-56 bg-white text-gray-900 dark:bg-gray-800 dark:text-gray-100 border border-gray-300 dark:border-gray-600 rounded-md shadow-md p-3 flex flex-col gap-2">
+          {(Object.keys(QUANTITY_LABELS) as (keyof UnitPreferences)[]).map((quantity) => (
+            <label key={quantity} className="flex items-center justify-between text-sm">
+              <span>{t(QUANTITY_LABELS[quantity])}</span>
+              <select
+                value={preferences[quantity]}
+                onChange={(e) => onChange(quantity, e.target.value as UnitPreferences[typeof quantity])}
+                className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+              >
+                {UNIT_OPTIONS[quantity].map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UnitSettings;
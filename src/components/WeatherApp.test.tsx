@@ -0,0 +1,99 @@
+// @vitest-environment jsdom
+import type { ReactElement } from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, render, screen } from '@testing-library/react';
+import { CachedForecast, InitialForecast, WeatherService } from '../utils/weather';
+import { WeatherServiceError } from '../utils/weatherErrors';
+import { nairobiForecast } from '../test/fixtures';
+import { axeViolations } from '../test/axe';
+import LocaleProvider from './LocaleProvider';
+import WeatherApp from './WeatherApp';
+
+vi.mock('../utils/weather', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../utils/weather')>();
+  return {
+    ...actual,
+    WeatherService: {
+      ...actual.WeatherService,
+      getForecastCached: vi.fn(),
+      cacheForecast: vi.fn(async () => {}),
+    },
+  };
+});
+
+// Leaflet needs a real layout engine; the map isn't under test here
+vi.mock('./MapPanel', () => ({ default: () => null }));
+
+const getForecastCached = vi.mocked(WeatherService.getForecastCached);
+
+// What the server hands over when it couldn't fetch the forecast, so the page fetches it itself
+const unfetched = (city: string): Promise<InitialForecast> => Promise.resolve({ location: { city }, lang: 'en', data: null, fetchedAt: 0 });
+
+// The dashboard suspends on the streamed forecast, so rendering has to settle inside act
+const renderApp = (ui: ReactElement) => act(async () => render(ui));
+
+describe('WeatherApp', () => {
+  beforeEach(() => {
+    getForecastCached.mockReset();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('announces loading in a polite live region', async () => {
+    getForecastCached.mockReturnValue(new Promise(() => {}));
+    const { container } = await renderApp(<WeatherApp initialForecast={unfetched('Nairobi')} />);
+
+    const status = await screen.findByText('Loading weather data...');
+    expect(status.closest('[role="status"]')?.getAttribute('aria-live')).toBe('polite');
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it('reports failures in an alert with a recovery action', async () => {
+    getForecastCached.mockRejectedValue(new WeatherServiceError('city-not-found', 'Not found', { status: 404 }));
+    const { container } = await renderApp(<WeatherApp initialForecast={unfetched('Atlantis')} />);
+
+    const alert = await screen.findByRole('alert');
+    expect(alert.textContent).toContain('Could not find "Atlantis"');
+    expect(screen.getByRole('button', { name: 'Search by city' })).toBeTruthy();
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it('shows the offline banner as a status message', async () => {
+    const offline: CachedForecast = { data: nairobiForecast(), fetchedAt: Date.UTC(2025, 2, 10, 6), fromCache: true, offline: true };
+    getForecastCached.mockResolvedValue(offline);
+    const { container } = await renderApp(<WeatherApp initialForecast={unfetched('Nairobi')} />);
+
+    const banner = await screen.findByText(/offline/);
+    expect(banner.getAttribute('role')).toBe('status');
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it('renders the forecast the server streamed in without fetching it again', async () => {
+    const initial: InitialForecast = { location: { city: 'Nairobi' }, lang: 'en', data: nairobiForecast(), fetchedAt: Date.now() };
+    const { container } = await renderApp(<WeatherApp initialForecast={Promise.resolve(initial)} />);
+
+    expect((await screen.findByRole('button', { name: 'Show hourly forecast for Monday' })).getAttribute('aria-pressed')).toBe('true');
+    expect(getForecastCached).not.toHaveBeenCalled();
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it('fetches once, in the saved language', async () => {
+    window.localStorage.setItem('weatherapp:locale', 'fr');
+    const languages: string[] = [];
+    getForecastCached.mockImplementation(async () => {
+      languages.push(WeatherService.getLanguage());
+      return { data: nairobiForecast(), fetchedAt: Date.now(), fromCache: false, offline: false };
+    });
+
+    // A deep link the server didn't prefetch for, so the page starts loading as it mounts
+    window.history.replaceState(null, '', '/?q=Nairobi');
+    try {
+      await renderApp(<LocaleProvider><WeatherApp initialForecast={null} /></LocaleProvider>);
+      expect(await screen.findByRole('button', { name: 'Afficher les prévisions horaires de lundi' })).toBeTruthy();
+      expect(languages).toEqual(['fr']);
+    } finally {
+      window.history.replaceState(null, '', '/');
+      window.localStorage.clear();
+      WeatherService.setLanguage('en');
+    }
+  });
+});
@@ -0,0 +1,387 @@
+'use client'
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { CityInfo, ForecastLocation, InitialForecast, WeatherForecast } from '../utils/weather';
+import HourlyTimeline from './HourlyTimeline';
+import FavoritesBar from './FavoritesBar';
+import FavoritesComparison from './FavoritesComparison';
+import AlertsPanel from './AlertsPanel';
+import ForecastDriftPanel from './ForecastDriftPanel';
+import ForecastStrip from './ForecastStrip';
+import ForecastBoundary from './ForecastBoundary';
+import DayDetailDrawer from './DayDetailDrawer';
+import CurrentWeatherCard from './CurrentWeatherCard';
+import SearchBar from './SearchBar';
+import WindCard from './WindCard';
+import HumidityCard from './HumidityCard';
+import MapPanel from './MapPanel';
+import LocationPrompt from './LocationPrompt';
+import LanguagePicker from './LanguagePicker';
+import { useFavorites } from '../hooks/useFavorites';
+import { useAlertRules } from '../hooks/useAlertRules';
+import { useAlertMonitor } from '../hooks/useAlertMonitor';
+import { useRecentLocations } from '../hooks/useRecentLocations';
+import { useForecastHistory } from '../hooks/useForecastHistory';
+import { rememberLocation, useLocationResolution } from '../hooks/useLocationResolution';
+import { ShownLocation, useForecastStore } from '../hooks/useForecastStore';
+import { unitSystemOf } from '../utils/units';
+import { currentConditions } from '../utils/currentConditions';
+import { readUrlState, writeUrlState } from '../utils/urlState';
+import { useNow } from '../hooks/useNow';
+import { useLocale } from '../hooks/useLocale';
+import { useTheme } from '../hooks/useTheme';
+import DaylightPanel from './DaylightPanel';
+
+const SEARCH_INPUT_ID = 'city-search';
+
+interface WeatherAppProps {
+  // Forecast the server started fetching for the URL's or the remembered location, if any
+  initialForecast: Promise<InitialForecast> | null;
+}
+
+const WeatherApp = ({ initialForecast }: WeatherAppProps) => {
+  const [city, setCity] = useState('');
+  const {
+    status,
+    requestId,
+    shown,
+    data: weatherData,
+    error,
+    offlineSince,
+    preferences,
+    setPreference,
+    applyUnitSystem,
+    loadForecast,
+    latestRequestId,
+    showInitialForecast,
+    locate,
+    retry,
+    dismissError,
+  } = useForecastStore();
+  const { t, intlLocale, ready: localeReady } = useLocale();
+  const { setSunTimes } = useTheme();
+  const { resolving, needsChoice, resolveLocation, chooseLocation } = useLocationResolution({ latestRequestId, loadForecast });
+  // DailyForecast.date of the day shown in the hourly timeline (null = today)
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [detailDate, setDetailDate] = useState<string | null>(null);
+  const { favorites, isFavorite, toggleFavorite, removeFavorite } = useFavorites();
+  const { rules, addRule, removeRule } = useAlertRules();
+  const { notificationsEnabled, enableNotifications, disableNotifications } = useAlertMonitor(rules);
+  const { recent, addRecent } = useRecentLocations();
+  const { snapshots, clearHistory } = useForecastHistory(weatherData);
+  // Shown location last written to the URL; later writes for it replace the history entry
+  const writtenShown = useRef<ShownLocation | null>(null);
+
+  // Get first day forecast (current day)
+  const currentForecast = weatherData?.daily_forecasts?.[0];
+
+  // Clock for the location's current time; uses the location's UTC offset once a forecast
+  // is loaded and the browser's own offset before that
+  const now = useNow();
+  const timezoneOffset = weatherData?.city.timezone ?? (now !== null ? -new Date(now).getTimezoneOffset() * 60 : 0);
+
+  // Conditions right now, interpolated between the forecast slots either side of the clock
+  // (the first slot until the clock starts after mount)
+  const conditionsNow = (forecast: WeatherForecast | null) => {
+    return now !== null ? currentConditions(forecast, now) : forecast?.daily_forecasts?.[0]?.hourly_forecasts?.[0];
+  };
+  const currentHourForecast = conditionsNow(weatherData);
+
+  // Day/night theming follows the part of day ("d"/"n") of the current hour
+  const isNight = currentHourForecast?.sys.pod === 'n';
+
+  // Day shown in the hourly timeline (falls back to today if the date isn't in this forecast)
+  const selectedDay = weatherData?.daily_forecasts?.find((day) => day.date === selectedDate) ?? currentForecast;
+  const detailDay = weatherData?.daily_forecasts?.find((day) => day.date === detailDate) ?? null;
+  const selectedDayIndex = selectedDay ? weatherData?.daily_forecasts?.indexOf(selectedDay) ?? 0 : 0;
+
+  // Apply page state from the URL: units, selected day and the searched city's name
+  const applyUrlState = useCallback((search: string) => {
+    const urlState = readUrlState(search);
+    if (urlState.units) applyUnitSystem(urlState.units);
+    setSelectedDate(urlState.day);
+    if (urlState.location && 'city' in urlState.location) setCity(urlState.location.city);
+    return urlState;
+  }, [applyUnitSystem]);
+
+  // Show the forecast whose place name should fill the search box
+  const showPlaceName = (data: WeatherForecast | null) => {
+    if (data?.city_info?.name) {
+      setCity(data.city_info.name);
+    }
+  };
+
+  // Initialise once the UI language is known, so the first fetch is already in it: from the
+  // forecast the server fetched for the URL's or the remembered location, else from the URL,
+  // else from the current or approximate location
+  useEffect(() => {
+    if (!localeReady) return;
+    const urlState = applyUrlState(window.location.search);
+    if (initialForecast) {
+      initialForecast.then((initial) => showInitialForecast(initial, urlState.location)).then((data) => {
+        if (!urlState.location) showPlaceName(data);
+      });
+    } else if (urlState.location) {
+      loadForecast(urlState.location, 'replace');
+    } else {
+      resolveLocation().then(showPlaceName);
+    }
+  }, [localeReady, initialForecast, applyUrlState, showInitialForecast, loadForecast, resolveLocation]);
+
+  // Navigate between previously viewed locations with browser back/forward
+  useEffect(() => {
+    const handlePopState = () => {
+      const { location } = applyUrlState(window.location.search);
+      if (location) loadForecast(location, 'replace');
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [applyUrlState, loadForecast]);
+
+  // Keep the URL in sync with the shown location, units and selected day
+  const unitSystem = unitSystemOf(preferences);
+  const urlDay = selectedDayIndex > 0 ? selectedDay?.date ?? null : null;
+  useEffect(() => {
+    if (!shown) return;
+    writeUrlState(
+      { location: shown.location, units: unitSystem, day: urlDay },
+      shown === writtenShown.current ? 'replace' : shown.history
+    );
+    writtenShown.current = shown;
+  }, [shown, unitSystem, urlDay]);
+  
+  // Start from the shown location on the next visit
+  useEffect(() => {
+    if (shown) rememberLocation(shown.location);
+  }, [shown]);
+
+  // Drive the sunrise/sunset theme from the shown location
+  const sunrise = weatherData?.city.sunrise;
+  const sunset = weatherData?.city.sunset;
+  useEffect(() => {
+    if (sunrise !== undefined && sunset !== undefined) setSunTimes({ sunrise, sunset });
+  }, [sunrise, sunset, setSunTimes]);
+
+  // Remember each shown forecast for the map's recent-location markers
+  useEffect(() => {
+    if (weatherData) addRecent(weatherData);
+  }, [weatherData, addRecent]);
+  
+  const handleSearch = (query: string) => {
+    loadForecast({ city: query });
+  };
+  
+  // Fetch weather for a location picked from the search suggestions or favorites
+  const handleSelectLocation = (location: CityInfo) => {
+    setCity(location.name);
+    loadForecast({ lat: location.lat, lon: location.lon });
+  };
+
+  // Fetch weather for a point clicked on the map, filling the search box with the place found
+  const handlePickOnMap = async (lat: number, lon: number) => {
+    showPlaceName(await loadForecast({ lat, lon }));
+  };
+
+  // Get weather data using geolocation, filling the search box with the place found
+  const handleLocate = async () => {
+    showPlaceName(await locate());
+  };
+
+  // Show the location picked in the first-run prompt
+  const handleChooseLocation = async (location: ForecastLocation) => {
+    showPlaceName(await chooseLocation(location));
+  };
+
+  // Run the recovery action offered alongside an error
+  const handleRecoveryAction = () => {
+    if (error?.action === 'retry') {
+      retry();
+    } else if (error?.action === 'search') {
+      dismissError();
+      document.getElementById(SEARCH_INPUT_ID)?.focus();
+    }
+  };
+  
+  // Format an epoch-milliseconds timestamp as HH:MM
+  const formatClockTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleTimeString(intlLocale, {
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false
+    });
+  };
+  
+  const closeDetails = useCallback(() => setDetailDate(null), []);
+
+  // Until the first forecast is shown, the current card and forecast strip render the one the
+  // server is streaming in (or a skeleton while it's on its way)
+  const streamedForecast = requestId === 0 ? initialForecast : null;
+
+  const renderCurrentCard = (forecast: WeatherForecast | null) => (
+    <CurrentWeatherCard
+      forecast={forecast}
+      current={conditionsNow(forecast)}
+      preferences={preferences}
+      now={now}
+      timezoneOffset={forecast?.city.timezone ?? timezoneOffset}
+      isFavorite={forecast?.city_info ? isFavorite(forecast.city_info) : false}
+      onToggleFavorite={() => forecast?.city_info && toggleFavorite(forecast.city_info)}
+    />
+  );
+
+  const renderForecastStrip = (forecast: WeatherForecast | null) => (
+    <ForecastStrip
+      days={forecast?.daily_forecasts}
+      selectedIndex={forecast === weatherData ? selectedDayIndex : 0}
+      temperatureUnit={preferences.temperature}
+      onSelect={(index) => setSelectedDate(index === 0 || index === selectedDayIndex ? null : forecast?.daily_forecasts[index]?.date ?? null)}
+      onShowDetails={(index) => setDetailDate(forecast?.daily_forecasts[index]?.date ?? null)}
+    />
+  );
+
+  // No location could be worked out: ask for one instead of showing placeholder cards
+  if (needsChoice && !weatherData && status !== 'loading') {
+    return (
+      <div className="max-w-5xl mx-auto my-8 p-6 flex flex-col gap-4">
+        <div className="flex justify-end">
+          <LanguagePicker />
+        </div>
+        <LocationPrompt onChoose={handleChooseLocation} />
+      </div>
+    );
+  }
+  
+  return (
+    <div className={`max-w-5xl mx-auto my-4 sm:my-8 p-4 sm:p-6 border border-gray-200 rounded-lg dark-light ${currentHourForecast ? `daylight-${isNight ? 'night' : 'day'}` : ''}`}>
+      {/* Main Grid Layout */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {/* Left Panel - Current Weather (D, E, F, G) */}
+        <ForecastBoundary forecast={weatherData} initial={streamedForecast} render={renderCurrentCard} />
+        
+        {/* Right Panel - Contains search and forecast */}
+        <div className="card md:col-span-3 min-w-0 flex flex-col gap-4">
+          {/* Search Bar Row (A, B, C) */}
+          <SearchBar
+            id={SEARCH_INPUT_ID}
+            value={city}
+            onChange={setCity}
+            onSubmit={handleSearch}
+            onSelectLocation={handleSelectLocation}
+            onLocate={handleLocate}
+            locating={status === 'locating'}
+            preferences={preferences}
+            onChangePreference={setPreference}
+          />
+
+          {/* Favorites Bar */}
+          <FavoritesBar
+            favorites={favorites}
+            activeLocation={weatherData?.city_info}
+            comparing={comparing}
+            onSelect={handleSelectLocation}
+            onRemove={removeFavorite}
+            onToggleCompare={() => setComparing(!comparing)}
+          />
+
+          {/* Favorites Comparison */}
+          {comparing && favorites.length > 0 && (
+            <FavoritesComparison
+              favorites={favorites}
+              temperatureUnit={preferences.temperature}
+              onSelect={(location) => {
+                setComparing(false);
+                handleSelectLocation(location);
+              }}
+            />
+          )}
+
+          {/* Offline Banner */}
+          {offlineSince !== null && (
+            <div className="bg-yellow-100 border border-yellow-400 text-yellow-800 px-4 py-2 rounded-md text-sm" role="status">
+              {t('app.offline', { time: formatClockTime(offlineSince) })}
+            </div>
+          )}
+
+          {/* Error Display */}
+          {error && (
+            <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-2 rounded-md flex items-center justify-between gap-4" role="alert">
+              <span>{t(error.message, error.values)}</span>
+              {error.action !== 'none' && (
+                <button
+                  type="button"
+                  onClick={handleRecoveryAction}
+                  className="px-3 py-1 border border-red-400 rounded-md text-sm whitespace-nowrap cursor-pointer"
+                >
+                  {error.action === 'retry' ? t('errors.retry') : t('errors.searchByCity')}
+                </button>
+              )}
+            </div>
+          )}
+          
+          {/* Loading Indicator, kept mounted so screen readers announce changes to it */}
+          <div role="status" aria-live="polite">
+            {(resolving || status === 'loading') && (
+              <div className="text-center py-4">
+                <p>{resolving && status !== 'loading' ? t('app.locating') : t('app.loading')}</p>
+              </div>
+            )}
+          </div>
+
+          {/* Forecast Strip (H) */}
+          <ForecastBoundary forecast={weatherData} initial={streamedForecast} render={renderForecastStrip} />
+
+          {/* Hourly Timeline for the selected day */}
+          {selectedDay && (
+            <HourlyTimeline day={selectedDay} preferences={preferences} timezoneOffset={timezoneOffset} />
+          )}
+          
+          {/* Bottom Metrics (I, J) */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {/* Wind Speed (I) */}
+            <WindCard hour={currentHourForecast} windSpeedUnit={preferences.windSpeed} />
+            
+            {/* Humidity (J) */}
+            <HumidityCard humidity={currentHourForecast?.main.humidity} />
+
+            {/* Daylight */}
+            <DaylightPanel city={weatherData?.city} now={now} />
+          </div>
+
+          {/* Map */}
+          <MapPanel
+            center={weatherData?.city_info}
+            recent={recent}
+            temperatureUnit={preferences.temperature}
+            onPick={handlePickOnMap}
+            onSelectRecent={handleSelectLocation}
+          />
+
+          {/* Forecast Drift */}
+          <ForecastDriftPanel
+            forecast={weatherData}
+            snapshots={snapshots}
+            temperatureUnit={preferences.temperature}
+            onClear={clearHistory}
+          />
+
+          {/* Weather Alerts */}
+          <AlertsPanel
+            forecast={weatherData}
+            rules={rules}
+            preferences={preferences}
+            notificationsEnabled={notificationsEnabled}
+            onAddRule={addRule}
+            onRemoveRule={removeRule}
+            onEnableNotifications={enableNotifications}
+            onDisableNotifications={disableNotifications}
+          />
+        </div>
+      </div>
+
+      {/* Per-day detail drawer */}
+      <DayDetailDrawer day={detailDay} preferences={preferences} onClose={closeDetails} />
+    </div>
+  );
+};
+
+export default WeatherApp;
@@ -0,0 +1,37 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { nairobiForecast } from '../test/fixtures';
+import { axeViolations } from '../test/axe';
+import WindCard from './WindCard';
+
+describe('WindCard', () => {
+  it('shows the wind speed and where it comes from', () => {
+    // First fixture slot: 3.94 m/s from 81°
+    render(<WindCard hour={nairobiForecast().daily_forecasts[0].hourly_forecasts[0]} windSpeedUnit="m/s" />);
+
+    expect(screen.getByText('3.9 m/s')).toBeTruthy();
+    expect(screen.getByText('E')).toBeTruthy();
+    const arrow = screen.getByRole('img', { name: 'Wind from the east (81°)' });
+    expect(arrow.style.transform).toBe('rotate(261deg)');
+  });
+
+  it('converts the speed to the preferred unit', () => {
+    render(<WindCard hour={nairobiForecast().daily_forecasts[0].hourly_forecasts[0]} windSpeedUnit="km/h" />);
+    expect(screen.getByText('14.2 km/h')).toBeTruthy();
+  });
+
+  it('shows placeholders before a forecast arrives', () => {
+    render(<WindCard windSpeedUnit="m/s" />);
+    expect(screen.getByText('-- m/s')).toBeTruthy();
+    expect(screen.getByRole('img', { name: 'N/A' })).toBeTruthy();
+  });
+
+  it('passes axe checks, with the direction arrow as a labelled image', async () => {
+    const { container, rerender } = render(<WindCard hour={nairobiForecast().daily_forecasts[0].hourly_forecasts[0]} windSpeedUnit="m/s" />);
+    expect(await axeViolations(container)).toEqual([]);
+
+    rerender(<WindCard windSpeedUnit="m/s" />);
+    expect(await axeViolations(container)).toEqual([]);
+  });
+});
@@ -0,0 +1,64 @@
+'use client'
+import React from 'react';
+import { HourlyForecast } from '../utils/weather';
+import { WindSpeedUnit, formatWindSpeed, windSpeedLabel } from '../utils/units';
+import { useLocale } from '../hooks/useLocale';
+
+interface WindCardProps {
+  hour?: HourlyForecast;
+  windSpeedUnit: WindSpeedUnit;
+}
+
+// Cardinal points, clockwise from north in 45° steps, abbreviated and spelled out for screen readers
+const DIRECTIONS = ['wind.N', 'wind.NE', 'wind.E', 'wind.SE', 'wind.S', 'wind.SW', 'wind.W', 'wind.NW'] as const;
+const DIRECTION_NAMES = [
+  'wind.name.N', 'wind.name.NE', 'wind.name.E', 'wind.name.SE',
+  'wind.name.S', 'wind.name.SW', 'wind.name.W', 'wind.name.NW'
+] as const;
+
+// Index into DIRECTIONS for a bearing in degrees
+const directionIndex = (deg: number) => Math.round(((deg % 360 + 360) % 360) / 45) % 8;
+
+const WindCard = ({ hour, windSpeedUnit }: WindCardProps) => {
+  const { t, intlLocale } = useLocale();
+  const windSpeed = hour?.wind.speed;
+  const windDeg = hour?.wind.deg;
+
+  // Get wind direction as cardinal point
+  const getWindDirection = (deg?: number): string => {
+    if (deg === undefined) return t('wind.unknownDirection');
+    return t(DIRECTIONS[directionIndex(deg)]);
+  };
+
+  return (
+    <div className="card border border-gray-200 rounded-lg p-4">
+      <div className="text-sm mb-4">{t('wind.title')}</div>
+      <div className="flex flex-col items-center justify-center">
+        <p className="text-2xl font-semibold">
+          {windSpeed !== undefined ? formatWindSpeed(windSpeed, windSpeedUnit, intlLocale) : `-- ${windSpeedLabel(windSpeedUnit)}`}
+        </p>
+        <div className="mt-2 flex items-center">
+          {/* Arrow points where the wind is blowing to, i.e. away from the direction it comes from */}
+          <div className="bg-gray-200 text-gray-800 rounded-full p-1 mr-2">
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className="h-5 w-5 transition-transform"
+              viewBox="0 0 24 24"
+              fill="currentColor"
+              style={{ transform: `rotate(${(windDeg ?? 0) + 180}deg)` }}
+              role="img"
+              aria-label={windDeg !== undefined
+                ? t('wind.from', { direction: t(DIRECTION_NAMES[directionIndex(windDeg)]), deg: Math.round(windDeg) })
+                : t('wind.unknownDirection')}
+            >
+              {windDeg !== undefined && <path d="M12 2l6 18-6-4-6 4z" />}
+            </svg>
+          </div>
+          <span className="text-xs" aria-hidden="true">{getWindDirection(windDeg)}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WindCard;
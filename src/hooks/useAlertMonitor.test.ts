@@ -0,0 +1,32 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useAlertMonitor } from './useAlertMonitor';
+
+describe('useAlertMonitor', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('starts with notifications off when storage is unavailable', () => {
+    // As in some private browsing modes, where any storage access throws
+    vi.spyOn(Storage.prototype, 'getItem').mockImplementation(() => {
+      throw new DOMException('The operation is insecure.', 'SecurityError');
+    });
+    const { result } = renderHook(() => useAlertMonitor([]));
+
+    expect(result.current.notificationsEnabled).toBe(false);
+  });
+
+  it('still turns notifications off when the choice can’t be saved', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+    });
+    const { result } = renderHook(() => useAlertMonitor([]));
+
+    act(() => result.current.disableNotifications());
+    expect(result.current.notificationsEnabled).toBe(false);
+    expect(console.error).toHaveBeenCalledWith('Error saving notification preference:', expect.any(DOMException));
+  });
+});
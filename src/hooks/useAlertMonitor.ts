@@ -0,0 +1,135 @@
+'use client'
+import { useState, useEffect, useCallback } from 'react';
+import { WeatherForecast, WeatherService } from '../utils/weather';
+import { AlertRule, ALERT_METRIC_LABELS, TriggeredAlert, evaluateRules, triggeredAlertKey } from '../utils/alerts';
+import { formatUnixAtLocation } from '../utils/time';
+import { showNotification } from '../utils/serviceWorker';
+import { useLocale } from './useLocale';
+import type { LocaleContextValue } from '../components/LocaleProvider';
+
+const NOTIFIED_STORAGE_KEY = 'weatherapp:alerts-notified';
+const OPT_IN_STORAGE_KEY = 'weatherapp:alerts-notify';
+
+// How often rules are re-checked in the background
+const REFRESH_INTERVAL = 15 * 60 * 1000;
+// Remember at most this many notified occurrences so storage doesn't grow without bound
+const MAX_NOTIFIED = 200;
+
+// Read the keys of alert occurrences we've already notified about
+const loadNotified = (): string[] => {
+  try {
+    const raw = window.localStorage.getItem(NOTIFIED_STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveNotified = (keys: string[]) => {
+  try {
+    window.localStorage.setItem(NOTIFIED_STORAGE_KEY, JSON.stringify(keys.slice(-MAX_NOTIFIED)));
+  } catch (error) {
+    console.error('Error saving notified alerts:', error);
+  }
+};
+
+// Whether the user turned notifications on (they may have revoked the permission since)
+const loadOptIn = (): boolean => {
+  try {
+    return window.localStorage.getItem(OPT_IN_STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+const saveOptIn = (optedIn: boolean) => {
+  try {
+    window.localStorage.setItem(OPT_IN_STORAGE_KEY, String(optedIn));
+  } catch (error) {
+    console.error('Error saving notification preference:', error);
+  }
+};
+
+// Show a browser notification for a newly triggered alert (times in the location's timezone)
+const notify = (alert: TriggeredAlert, timezoneOffset: number, { t, intlLocale }: LocaleContextValue) => {
+  const time = formatUnixAtLocation(alert.dt, timezoneOffset, {
+    weekday: 'short',
+    hour: 'numeric'
+  }, intlLocale);
+  return showNotification(t('alerts.notificationTitle', { location: alert.rule.locationName }), {
+    body: t('alerts.notificationBody', {
+      metric: t(ALERT_METRIC_LABELS[alert.rule.metric]),
+      comparator: t(alert.rule.comparator === 'above' ? 'alerts.above' : 'alerts.below'),
+      time
+    }),
+    tag: triggeredAlertKey(alert)
+  });
+};
+
+// Periodically refresh forecasts for every location with rules and, if the user opted in,
+// deliver a browser notification the first time each rule occurrence triggers
+export const useAlertMonitor = (rules: AlertRule[]) => {
+  const [notificationsEnabled, setNotificationsEnabled] = useState(false);
+  const localeContext = useLocale();
+
+  // Restore the opt-in once we can check the current permission
+  useEffect(() => {
+    setNotificationsEnabled(loadOptIn() && 'Notification' in window && Notification.permission === 'granted');
+  }, []);
+
+  // Ask for permission and remember the choice
+  const enableNotifications = useCallback(async () => {
+    if (!('Notification' in window)) return false;
+    const permission = await Notification.requestPermission();
+    const granted = permission === 'granted';
+    saveOptIn(granted);
+    setNotificationsEnabled(granted);
+    return granted;
+  }, []);
+
+  const disableNotifications = useCallback(() => {
+    saveOptIn(false);
+    setNotificationsEnabled(false);
+  }, []);
+
+  useEffect(() => {
+    if (!notificationsEnabled || rules.length === 0) return;
+
+    // Group rules by location so each forecast is fetched once
+    const byLocation = new Map<string, AlertRule[]>();
+    rules.forEach((rule) => {
+      byLocation.set(rule.locationKey, [...(byLocation.get(rule.locationKey) ?? []), rule]);
+    });
+
+    const checkForecast = (locationRules: AlertRule[], forecast: WeatherForecast) => {
+      const notified = loadNotified();
+      const fresh = evaluateRules(locationRules, forecast).filter((alert) => !notified.includes(triggeredAlertKey(alert)));
+      if (fresh.length === 0) return;
+      fresh.forEach((alert) => {
+        notify(alert, forecast.city.timezone, localeContext)
+          .catch((error) => console.error('Error showing alert notification:', error));
+      });
+      saveNotified([...notified, ...fresh.map(triggeredAlertKey)]);
+    };
+
+    const checkAll = () => {
+      byLocation.forEach((locationRules) => {
+        const { lat, lon } = locationRules[0];
+        WeatherService.getForecastCached({ lat, lon }, 'metric', {
+          onRevalidate: (update) => checkForecast(locationRules, update.data)
+        })
+          .then((result) => checkForecast(locationRules, result.data))
+          .catch((error) => console.error('Error checking weather alerts:', error));
+      });
+    };
+
+    checkAll();
+    const timer = setInterval(checkAll, REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, [rules, notificationsEnabled, localeContext]);
+
+  return { notificationsEnabled, enableNotifications, disableNotifications };
+};
+
+export default useAlertMonitor;
@@ -0,0 +1,56 @@
+'use client'
+import { useState, useEffect, useCallback } from 'react';
+import { AlertRule } from '../utils/alerts';
+
+const STORAGE_KEY = 'weatherapp:alert-rules';
+
+// Read rules from localStorage, ignoring missing or corrupt data
+const loadRules = (): AlertRule[] => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Error loading alert rules:', error);
+    return [];
+  }
+};
+
+const saveRules = (rules: AlertRule[]) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+  } catch (error) {
+    console.error('Error saving alert rules:', error);
+  }
+};
+
+// Threshold alert rules persisted in localStorage
+export const useAlertRules = () => {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+
+  // Load after mount so server and client render the same initial markup
+  useEffect(() => {
+    setRules(loadRules());
+  }, []);
+
+  const update = useCallback((updater: (current: AlertRule[]) => AlertRule[]) => {
+    setRules((current) => {
+      const next = updater(current);
+      saveRules(next);
+      return next;
+    });
+  }, []);
+
+  const addRule = useCallback((rule: Omit<AlertRule, 'id'>) => {
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    update((current) => [...current, { ...rule, id }]);
+  }, [update]);
+
+  const removeRule = useCallback((id: string) => {
+    update((current) => current.filter((rule) => rule.id !== id));
+  }, [update]);
+
+  return { rules, addRule, removeRule };
+};
+
+export default useAlertRules;
@@ -0,0 +1,45 @@
+'use client'
+import { useState, useEffect, useCallback } from 'react';
+import { CONTRAST_STORAGE_KEY } from '../utils/theme';
+
+// Read the saved choice; without one, follow the operating system's contrast setting
+const loadHighContrast = (): boolean => {
+  try {
+    const saved = window.localStorage.getItem(CONTRAST_STORAGE_KEY);
+    if (saved === 'high' || saved === 'normal') return saved === 'high';
+  } catch (error) {
+    console.error('Error loading contrast preference:', error);
+  }
+  return window.matchMedia?.('(prefers-contrast: more)').matches ?? false;
+};
+
+const saveHighContrast = (highContrast: boolean) => {
+  try {
+    window.localStorage.setItem(CONTRAST_STORAGE_KEY, highContrast ? 'high' : 'normal');
+  } catch (error) {
+    console.error('Error saving contrast preference:', error);
+  }
+};
+
+// High-contrast theme toggle, applied as data-contrast on <html> (see globals.css)
+export const useContrastPreference = () => {
+  const [highContrast, setHighContrast] = useState(false);
+
+  // Load after mount so server and client render the same initial markup
+  useEffect(() => {
+    setHighContrast(loadHighContrast());
+  }, []);
+
+  // The saved choice is applied before first paint by THEME_INIT_SCRIPT; later changes here
+  const toggleHighContrast = useCallback(() => {
+    setHighContrast((current) => {
+      saveHighContrast(!current);
+      document.documentElement.dataset.contrast = current ? 'normal' : 'high';
+      return !current;
+    });
+  }, []);
+
+  return { highContrast, toggleHighContrast };
+};
+
+export default useContrastPreference;
@@ -0,0 +1,33 @@
+'use client'
+import { RefObject, useEffect } from 'react';
+
+// Close a popup on Escape or a click outside `container`, returning focus to `trigger`
+// after Escape so keyboard users land back where they opened it
+export const useDismiss = (
+  open: boolean,
+  onDismiss: () => void,
+  container: RefObject<HTMLElement | null>,
+  trigger?: RefObject<HTMLElement | null>
+) => {
+  useEffect(() => {
+    if (!open) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      onDismiss();
+      trigger?.current?.focus();
+    };
+    const handlePointerDown = (e: PointerEvent) => {
+      if (container.current && !container.current.contains(e.target as Node)) onDismiss();
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('pointerdown', handlePointerDown);
+    };
+  }, [open, onDismiss, container, trigger]);
+};
+
+export default useDismiss;
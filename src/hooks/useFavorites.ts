@@ -0,0 +1,71 @@
+'use client'
+import { useState, useEffect, useCallback } from 'react';
+import { CityInfo } from '../utils/weather';
+
+const STORAGE_KEY = 'weatherapp:favorites';
+
+// Build a stable key from coordinates (4 decimals is ~11m, enough to dedupe the same place)
+export const favoriteKey = (location: Pick<CityInfo, 'lat' | 'lon'>) => {
+  return `${location.lat.toFixed(4)},${location.lon.toFixed(4)}`;
+};
+
+// Read favorites from localStorage, ignoring missing or corrupt data
+const loadFavorites = (): CityInfo[] => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Error loading favorites:', error);
+    return [];
+  }
+};
+
+const saveFavorites = (favorites: CityInfo[]) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(favorites));
+  } catch (error) {
+    console.error('Error saving favorites:', error);
+  }
+};
+
+// Favorite locations persisted in localStorage, keyed by lat/lon
+export const useFavorites = () => {
+  const [favorites, setFavorites] = useState<CityInfo[]>([]);
+
+  // Load after mount so server and client render the same initial markup
+  useEffect(() => {
+    setFavorites(loadFavorites());
+  }, []);
+
+  const update = useCallback((updater: (current: CityInfo[]) => CityInfo[]) => {
+    setFavorites((current) => {
+      const next = updater(current);
+      saveFavorites(next);
+      return next;
+    });
+  }, []);
+
+  const isFavorite = useCallback((location?: CityInfo | null) => {
+    if (!location) return false;
+    const key = favoriteKey(location);
+    return favorites.some((favorite) => favoriteKey(favorite) === key);
+  }, [favorites]);
+
+  const toggleFavorite = useCallback((location: CityInfo) => {
+    const key = favoriteKey(location);
+    update((current) => current.some((favorite) => favoriteKey(favorite) === key)
+      ? current.filter((favorite) => favoriteKey(favorite) !== key)
+      : [...current, { name: location.name, country: location.country, state: location.state, lat: location.lat, lon: location.lon }]
+    );
+  }, [update]);
+
+  const removeFavorite = useCallback((location: CityInfo) => {
+    const key = favoriteKey(location);
+    update((current) => current.filter((favorite) => favoriteKey(favorite) !== key));
+  }, [update]);
+
+  return { favorites, isFavorite, toggleFavorite, removeFavorite };
+};
+
+export default useFavorites;
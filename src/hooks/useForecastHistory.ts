@@ -0,0 +1,35 @@
+'use client'
+import { useState, useEffect, useCallback } from 'react';
+import { WeatherForecast } from '../utils/weather';
+import { ForecastSnapshot, clearForecastHistory, historyLocationKey, readForecastHistory } from '../utils/forecastHistory';
+
+// Stored snapshots for the location of the shown forecast, reloaded whenever a new forecast arrives
+export const useForecastHistory = (forecast: WeatherForecast | null) => {
+  const [snapshots, setSnapshots] = useState<ForecastSnapshot[]>([]);
+  const location = forecast?.city_info ? historyLocationKey(forecast.city_info) : null;
+
+  useEffect(() => {
+    if (!location) {
+      setSnapshots([]);
+      return;
+    }
+    // Ignore a slow read for a location that is no longer shown
+    let cancelled = false;
+    readForecastHistory(location).then((result) => {
+      if (!cancelled) setSnapshots(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [location, forecast]);
+
+  const clearHistory = useCallback(async () => {
+    if (!location) return;
+    await clearForecastHistory(location);
+    setSnapshots([]);
+  }, [location]);
+
+  return { snapshots, clearHistory };
+};
+
+export default useForecastHistory;
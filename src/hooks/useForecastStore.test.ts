@@ -0,0 +1,200 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { CachedForecast, InitialForecast, WeatherService } from '../utils/weather';
+import { WeatherServiceError } from '../utils/weatherErrors';
+import { nairobiForecast } from '../test/fixtures';
+import { ForecastState, forecastReducer, initialForecastState, useForecastStore } from './useForecastStore';
+
+vi.mock('../utils/weather', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../utils/weather')>();
+  return {
+    ...actual,
+    WeatherService: {
+      ...actual.WeatherService,
+      getForecastCached: vi.fn(),
+      getLanguage: vi.fn(() => 'en'),
+      cacheForecast: vi.fn(async () => {}),
+    },
+  };
+});
+
+const getForecastCached = vi.mocked(WeatherService.getForecastCached);
+
+const fresh = (overrides: Partial<CachedForecast> = {}): CachedForecast => ({
+  data: nairobiForecast(),
+  fetchedAt: 1741597200000,
+  fromCache: false,
+  offline: false,
+  ...overrides,
+});
+
+// What the server rendered the page with, fetched `age` milliseconds ago
+const initial = (age: number): InitialForecast => ({ location: { city: 'Nairobi' }, lang: 'en', data: nairobiForecast(), fetchedAt: Date.now() - age });
+
+// State after requesting Nairobi as request `requestId`
+const requested = (requestId: number, state: ForecastState = initialForecastState): ForecastState => {
+  return forecastReducer(state, { type: 'request', location: { city: 'Nairobi' }, history: 'push', requestId });
+};
+
+describe('forecastReducer', () => {
+  it('shows the result of the latest request', () => {
+    const result = fresh();
+    const state = forecastReducer(requested(1), { type: 'receive', requestId: 1, result });
+    expect(state.status).toBe('success');
+    expect(state.data).toBe(result.data);
+    expect(state.shown).toEqual({ location: { city: 'Nairobi' }, history: 'push', requestId: 1 });
+    expect(state.offlineSince).toBeNull();
+  });
+
+  it('ignores results for superseded requests', () => {
+    const state = requested(2, requested(1));
+    expect(forecastReducer(state, { type: 'receive', requestId: 1, result: fresh() })).toBe(state);
+  });
+
+  it('ignores failures of superseded requests', () => {
+    const state = requested(2, requested(1));
+    const failed = forecastReducer(state, { type: 'fail', requestId: 1, error: { message: 'errors.network', action: 'retry' } });
+    expect(failed).toBe(state);
+  });
+
+  it('keeps the shown location when a revalidation of the same request lands', () => {
+    const first = forecastReducer(requested(1), { type: 'receive', requestId: 1, result: fresh({ fromCache: true }) });
+    const revalidated = fresh();
+    const state = forecastReducer(first, { type: 'receive', requestId: 1, result: revalidated });
+    expect(state.shown).toBe(first.shown);
+    expect(state.data).toBe(revalidated.data);
+  });
+
+  it('flags revalidations that fell back to the cached copy as offline', () => {
+    const first = forecastReducer(requested(1), { type: 'receive', requestId: 1, result: fresh({ fromCache: true }) });
+    const state = forecastReducer(first, { type: 'receive', requestId: 1, result: fresh({ fromCache: true, offline: true, fetchedAt: 1000 }) });
+    expect(state.offlineSince).toBe(1000);
+  });
+
+  it('keeps the previous forecast on screen while a new one loads', () => {
+    const shown = forecastReducer(requested(1), { type: 'receive', requestId: 1, result: fresh() });
+    const loading = requested(2, shown);
+    expect(loading.status).toBe('loading');
+    expect(loading.data).toBe(shown.data);
+  });
+
+  it('returns to the shown forecast when an error is dismissed', () => {
+    const shown = forecastReducer(requested(1), { type: 'receive', requestId: 1, result: fresh() });
+    const failed = forecastReducer(requested(2, shown), { type: 'fail', requestId: 2, error: { message: 'errors.server', action: 'retry' } });
+    expect(failed.status).toBe('error');
+
+    const dismissed = forecastReducer(failed, { type: 'dismissError' });
+    expect(dismissed.status).toBe('success');
+    expect(dismissed.error).toBeNull();
+  });
+
+  it('goes back to idle when an error is dismissed with nothing shown', () => {
+    const failed = forecastReducer(requested(1), { type: 'fail', requestId: 1, error: { message: 'errors.server', action: 'retry' } });
+    expect(forecastReducer(failed, { type: 'dismissError' }).status).toBe('idle');
+  });
+});
+
+describe('useForecastStore', () => {
+  beforeEach(() => {
+    getForecastCached.mockReset();
+    // Failed requests are logged; keep the expected ones out of the test output
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('is loading until the forecast arrives', async () => {
+    let resolve: (result: CachedForecast) => void = () => {};
+    getForecastCached.mockReturnValue(new Promise((done) => { resolve = done; }));
+    const { result } = renderHook(() => useForecastStore());
+
+    act(() => {
+      result.current.loadForecast({ city: 'Nairobi' });
+    });
+    expect(result.current.status).toBe('loading');
+    expect(result.current.data).toBeNull();
+
+    const forecast = fresh();
+    await act(async () => resolve(forecast));
+    expect(result.current.status).toBe('success');
+    expect(result.current.data).toBe(forecast.data);
+  });
+
+  it('describes failures for the error banner', async () => {
+    getForecastCached.mockRejectedValue(new WeatherServiceError('city-not-found', 'Not found', { status: 404 }));
+    const { result } = renderHook(() => useForecastStore());
+
+    await act(async () => {
+      await result.current.loadForecast({ city: 'Atlantis' });
+    });
+    expect(result.current.status).toBe('error');
+    expect(result.current.error).toEqual({ message: 'errors.cityNotFound', values: { city: 'Atlantis' }, action: 'search' });
+  });
+
+  it('shows only the latest of overlapping requests', async () => {
+    const slow = fresh({ fetchedAt: 1 });
+    const fast = fresh({ fetchedAt: 2 });
+    let resolveSlow: (result: CachedForecast) => void = () => {};
+    getForecastCached
+      .mockReturnValueOnce(new Promise((done) => { resolveSlow = done; }))
+      .mockResolvedValueOnce(fast);
+    const { result } = renderHook(() => useForecastStore());
+
+    await act(async () => {
+      result.current.loadForecast({ city: 'Nairobi' });
+      await result.current.loadForecast({ city: 'Mombasa' });
+    });
+    await act(async () => resolveSlow(slow));
+    expect(result.current.data).toBe(fast.data);
+    expect(result.current.shown?.location).toEqual({ city: 'Mombasa' });
+  });
+
+  it('retries the last requested location', async () => {
+    getForecastCached.mockRejectedValueOnce(new WeatherServiceError('network', 'Offline')).mockResolvedValueOnce(fresh());
+    const { result } = renderHook(() => useForecastStore());
+
+    await act(async () => {
+      await result.current.loadForecast({ lat: -1.28, lon: 36.82 });
+    });
+    expect(result.current.error?.action).toBe('retry');
+
+    act(() => result.current.retry());
+    await waitFor(() => expect(result.current.status).toBe('success'));
+    expect(getForecastCached).toHaveBeenLastCalledWith({ lat: -1.28, lon: 36.82 }, 'metric', expect.anything());
+  });
+
+  it('shows the server-rendered forecast without fetching it again', async () => {
+    const { result } = renderHook(() => useForecastStore());
+    const page = initial(1000);
+
+    await act(async () => {
+      await result.current.showInitialForecast(page, { city: 'Nairobi' });
+    });
+    expect(getForecastCached).not.toHaveBeenCalled();
+    expect(result.current.data).toBe(page.data);
+    expect(result.current.offlineSince).toBeNull();
+  });
+
+  it('refetches an old page the service worker served, showing the cached copy as offline', async () => {
+    const offline = fresh({ fromCache: true, offline: true });
+    getForecastCached.mockResolvedValue(offline);
+    const { result } = renderHook(() => useForecastStore());
+
+    await act(async () => {
+      await result.current.showInitialForecast(initial(60 * 60 * 1000), null);
+    });
+    expect(getForecastCached).toHaveBeenCalledWith({ city: 'Nairobi' }, 'metric', expect.anything());
+    expect(result.current.data).toBe(offline.data);
+    expect(result.current.offlineSince).toBe(offline.fetchedAt);
+  });
+
+  it('loads the URL’s location when the page was rendered for another', async () => {
+    getForecastCached.mockResolvedValue(fresh());
+    const { result } = renderHook(() => useForecastStore());
+
+    await act(async () => {
+      await result.current.showInitialForecast(initial(1000), { city: 'Mombasa' });
+    });
+    expect(getForecastCached).toHaveBeenCalledWith({ city: 'Mombasa' }, 'metric', expect.anything());
+    expect(result.current.shown?.location).toEqual({ city: 'Mombasa' });
+  });
+});
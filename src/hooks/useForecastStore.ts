@@ -0,0 +1,235 @@
+'use client'
+import { useReducer, useEffect, useCallback, useRef } from 'react';
+import { CachedForecast, ForecastLocation, InitialForecast, WeatherForecast, WeatherService } from '../utils/weather';
+import { ErrorDescription, describeWeatherError, toWeatherServiceError } from '../utils/weatherErrors';
+import { rememberLastForecast } from '../utils/serviceWorker';
+import { sameUrlLocation } from '../utils/urlState';
+import { getCurrentPosition, isGeolocationSupported } from '../utils/geolocation';
+import { useUnitPreferences } from './useUnitPreferences';
+import { useLocale } from './useLocale';
+
+// Forecasts are always fetched in canonical metric units and converted locally for display
+export const FETCH_UNITS = 'metric';
+
+// A server-rendered forecast older than this didn't come from the server just now but from a
+// page the service worker cached on an earlier visit, served because the network is down
+const INITIAL_FORECAST_MAX_AGE = 10 * 60 * 1000;
+
+// How the next URL update for a newly shown location should touch browser history
+export type HistoryMode = 'push' | 'replace';
+
+// Where a forecast request is in its lifecycle
+export type ForecastStatus =
+  | 'idle'      // Nothing requested yet
+  | 'locating'  // Waiting for the browser's geolocation
+  | 'loading'   // Forecast request in flight
+  | 'success'   // Showing data for the latest request
+  | 'error';    // The latest request failed; `error` says why
+
+// Interface for the location whose forecast is on screen
+export interface ShownLocation {
+  location: ForecastLocation;
+  history: HistoryMode; // How it should enter the URL
+  requestId: number;
+}
+
+// Interface for the forecast store's state
+export interface ForecastState {
+  status: ForecastStatus;
+  location: ForecastLocation | null; // Last requested location, so recovery actions can retry it
+  history: HistoryMode; // How the last requested location should enter the URL once shown
+  shown: ShownLocation | null;
+  data: WeatherForecast | null;
+  error: ErrorDescription | null;
+  offlineSince: number | null; // Fetch time of the cached copy shown while the network is unreachable
+  requestId: number; // Id of the latest request; results for older ones are ignored
+}
+
+export type ForecastAction =
+  | { type: 'locate' }
+  | { type: 'request'; location: ForecastLocation; history: HistoryMode; requestId: number }
+  | { type: 'receive'; requestId: number; result: CachedForecast }
+  | { type: 'fail'; error: ErrorDescription; requestId?: number }
+  | { type: 'dismissError' };
+
+export const initialForecastState: ForecastState = {
+  status: 'idle',
+  location: null,
+  history: 'replace',
+  shown: null,
+  data: null,
+  error: null,
+  offlineSince: null,
+  requestId: 0,
+};
+
+export const forecastReducer = (state: ForecastState, action: ForecastAction): ForecastState => {
+  switch (action.type) {
+    case 'locate':
+      return { ...state, status: 'locating', error: null };
+    case 'request':
+      return {
+        ...state,
+        status: 'loading',
+        location: action.location,
+        history: action.history,
+        error: null,
+        requestId: action.requestId,
+      };
+    case 'receive': {
+      if (action.requestId !== state.requestId || !state.location) return state;
+      // Background revalidations of the same request update the data but not the shown location
+      const shown = state.shown?.requestId === action.requestId
+        ? state.shown
+        : { location: state.location, history: state.history, requestId: action.requestId };
+      return {
+        ...state,
+        status: 'success',
+        shown,
+        data: action.result.data,
+        offlineSince: action.result.offline ? action.result.fetchedAt : null,
+      };
+    }
+    case 'fail':
+      if (action.requestId !== undefined && action.requestId !== state.requestId) return state;
+      return { ...state, status: 'error', error: action.error };
+    case 'dismissError':
+      return { ...state, status: state.data ? 'success' : 'idle', error: null };
+  }
+};
+
+// The page's forecast data flow: what's requested, what's shown, loading and error states,
+// plus the display unit preferences the forecast is rendered in
+export const useForecastStore = () => {
+  const [state, dispatch] = useReducer(forecastReducer, initialForecastState);
+  const { preferences, setPreference, applyUnitSystem } = useUnitPreferences();
+  const { locale } = useLocale();
+  // Source of request ids
+  const latestRequest = useRef(0);
+  // Aborted when a newer request starts so a slow earlier search can't overwrite it
+  const inFlightRequest = useRef<AbortController | null>(null);
+  // Mirrors state.location for callbacks that shouldn't change identity with it
+  const lastLocation = useRef<ForecastLocation | null>(null);
+  // Language the shown forecast was fetched in
+  const fetchedLocale = useRef(locale);
+
+  // Fetch and show the forecast for a location, cancelling any request still in flight.
+  // `history` says how the location should enter the URL once it is shown.
+  const loadForecast = useCallback(async (location: ForecastLocation, history: HistoryMode = 'push') => {
+    inFlightRequest.current?.abort();
+    const controller = new AbortController();
+    inFlightRequest.current = controller;
+    lastLocation.current = location;
+    const requestId = ++latestRequest.current;
+
+    dispatch({ type: 'request', location, history, requestId });
+
+    try {
+      const result = await WeatherService.getForecastCached(location, FETCH_UNITS, {
+        signal: controller.signal,
+        onRevalidate: (update) => dispatch({ type: 'receive', requestId, result: update })
+      });
+      dispatch({ type: 'receive', requestId, result });
+      return result.data;
+    } catch (error) {
+      const serviceError = toWeatherServiceError(error);
+      // Superseded by a newer request; that one owns the loading and error state now
+      if (serviceError.kind === 'cancelled') return null;
+      console.error('Error fetching weather data:', serviceError);
+      dispatch({
+        type: 'fail',
+        requestId,
+        error: describeWeatherError(serviceError, 'city' in location ? location.city : undefined)
+      });
+      return null;
+    }
+  }, []);
+
+  // Show the forecast the server fetched while rendering the page, as if it had been loaded
+  // here. Fetches it instead if the server couldn't, if the language changed meanwhile, or if
+  // the page is an old copy from the service worker: its forecast is stale and may be for
+  // another location than `requested` (the URL's), and fetching falls back to the cached
+  // forecast with the offline banner. Does nothing once the user has asked for something else.
+  const showInitialForecast = useCallback(async (initial: InitialForecast, requested: ForecastLocation | null = null): Promise<WeatherForecast | null> => {
+    if (latestRequest.current !== 0) return null;
+    if (requested && !sameUrlLocation(requested, initial.location)) {
+      return loadForecast(requested, 'replace');
+    }
+    const stale = Date.now() - initial.fetchedAt > INITIAL_FORECAST_MAX_AGE;
+    if (!initial.data || initial.lang !== WeatherService.getLanguage() || stale) {
+      return loadForecast(initial.location, 'replace');
+    }
+
+    await WeatherService.cacheForecast(initial.location, FETCH_UNITS, initial.data, initial.fetchedAt);
+    if (latestRequest.current !== 0) return null;
+
+    lastLocation.current = initial.location;
+    const requestId = ++latestRequest.current;
+    dispatch({ type: 'request', location: initial.location, history: 'replace', requestId });
+    dispatch({
+      type: 'receive',
+      requestId,
+      result: { data: initial.data, fetchedAt: initial.fetchedAt, fromCache: false, offline: false }
+    });
+    return initial.data;
+  }, [loadForecast]);
+
+  // Fetch the forecast for the browser's current position
+  const locate = useCallback(async (history: HistoryMode = 'push'): Promise<WeatherForecast | null> => {
+    if (!isGeolocationSupported()) {
+      dispatch({ type: 'fail', error: { message: 'errors.geolocationUnsupported', action: 'search' } });
+      return null;
+    }
+
+    dispatch({ type: 'locate' });
+
+    let position: { lat: number; lon: number };
+    try {
+      position = await getCurrentPosition();
+    } catch (err) {
+      const detail = err instanceof Error ? err.message : String(err);
+      dispatch({ type: 'fail', error: { message: 'errors.geolocationFailed', values: { detail }, action: 'search' } });
+      return null;
+    }
+    return loadForecast(position, history);
+  }, [loadForecast]);
+
+  // Retry the last requested location
+  const retry = useCallback(() => {
+    if (lastLocation.current) loadForecast(lastLocation.current);
+  }, [loadForecast]);
+
+  const dismissError = useCallback(() => dispatch({ type: 'dismissError' }), []);
+
+  // Id of the latest request, up to date even before the state it dispatched has rendered
+  const latestRequestId = useCallback(() => latestRequest.current, []);
+
+  // Refetch when the language changes so descriptions and place names match
+  useEffect(() => {
+    if (fetchedLocale.current === locale) return;
+    fetchedLocale.current = locale;
+    if (lastLocation.current) loadForecast(lastLocation.current, 'replace');
+  }, [locale, loadForecast]);
+
+  // Let the service worker refresh the shown location in the background
+  const shownLocation = state.shown?.location;
+  useEffect(() => {
+    if (!shownLocation) return;
+    rememberLastForecast(WeatherService.forecastUrl(shownLocation, FETCH_UNITS));
+  }, [shownLocation, locale]);
+
+  return {
+    ...state,
+    preferences,
+    setPreference,
+    applyUnitSystem,
+    loadForecast,
+    latestRequestId,
+    showInitialForecast,
+    locate,
+    retry,
+    dismissError,
+  };
+};
+
+export default useForecastStore;
@@ -0,0 +1,8 @@
+'use client'
+import { useContext } from 'react';
+import { LocaleContext } from '../components/LocaleProvider';
+
+// Current UI language, its Intl tag, a setter and the translator `t`
+export const useLocale = () => useContext(LocaleContext);
+
+export default useLocale;
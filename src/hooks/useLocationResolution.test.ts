@@ -0,0 +1,134 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { ForecastLocation, WeatherForecast, WeatherService } from '../utils/weather';
+import { getCurrentPosition, isGeolocationDenied, isGeolocationSupported } from '../utils/geolocation';
+import { nairobiForecast } from '../test/fixtures';
+import { useLocationResolution } from './useLocationResolution';
+
+vi.mock('../utils/weather', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../utils/weather')>();
+  return { ...actual, WeatherService: { ...actual.WeatherService, getApproximateLocation: vi.fn() } };
+});
+
+vi.mock('../utils/geolocation', () => ({
+  isGeolocationSupported: vi.fn(),
+  isGeolocationDenied: vi.fn(),
+  getCurrentPosition: vi.fn(),
+}));
+
+const getApproximateLocation = vi.mocked(WeatherService.getApproximateLocation);
+
+const IP_LOCATION = { lat: -1.28, lon: 36.82 };
+const POSITION = { lat: -4.05, lon: 39.66 };
+
+// A stand-in for the forecast store: each load is a new request; cities other than
+// Nairobi fail like unknown ones do, resolving to null
+const store = () => {
+  let requests = 0;
+  // Start a request, as the store does for each load, the pipeline's or the user's
+  const newRequest = () => {
+    requests++;
+  };
+  const loadForecast = vi.fn(async (location: ForecastLocation): Promise<WeatherForecast | null> => {
+    newRequest();
+    return 'city' in location && location.city !== 'Nairobi' ? null : nairobiForecast();
+  });
+  return { latestRequestId: () => requests, loadForecast, newRequest };
+};
+
+describe('useLocationResolution', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    getApproximateLocation.mockReset().mockResolvedValue(IP_LOCATION);
+    vi.mocked(isGeolocationSupported).mockReturnValue(false);
+    vi.mocked(isGeolocationDenied).mockResolvedValue(false);
+    vi.mocked(getCurrentPosition).mockResolvedValue(POSITION);
+  });
+
+  it('starts at the remembered location', async () => {
+    window.localStorage.setItem('weatherapp:lastLocation', JSON.stringify({ city: 'Nairobi' }));
+    const { loadForecast, latestRequestId } = store();
+    const { result } = renderHook(() => useLocationResolution({ latestRequestId, loadForecast }));
+
+    await act(async () => {
+      expect(await result.current.resolveLocation()).not.toBeNull();
+    });
+    expect(loadForecast.mock.calls).toEqual([[{ city: 'Nairobi' }, 'replace']]);
+    expect(getApproximateLocation).not.toHaveBeenCalled();
+  });
+
+  it('carries on to the approximate location when the remembered one fails', async () => {
+    window.localStorage.setItem('weatherapp:lastLocation', JSON.stringify({ city: 'Atlantis' }));
+    const { loadForecast, latestRequestId } = store();
+    const { result } = renderHook(() => useLocationResolution({ latestRequestId, loadForecast }));
+
+    await act(async () => {
+      expect(await result.current.resolveLocation()).not.toBeNull();
+    });
+    expect(loadForecast.mock.calls).toEqual([[{ city: 'Atlantis' }, 'replace'], [IP_LOCATION, 'replace']]);
+    expect(result.current.needsChoice).toBe(false);
+  });
+
+  it('leaves the location alone once the user picked one', async () => {
+    window.localStorage.setItem('weatherapp:lastLocation', JSON.stringify({ city: 'Atlantis' }));
+    const { loadForecast, latestRequestId, newRequest } = store();
+    loadForecast.mockImplementationOnce(async () => {
+      newRequest();
+      await Promise.resolve();
+      // The user searches while the remembered location loads, which cancels it
+      newRequest();
+      return null;
+    });
+    const { result } = renderHook(() => useLocationResolution({ latestRequestId, loadForecast }));
+
+    await act(async () => {
+      expect(await result.current.resolveLocation()).toBeNull();
+    });
+    expect(loadForecast).toHaveBeenCalledOnce();
+    expect(getApproximateLocation).not.toHaveBeenCalled();
+  });
+
+  it('asks for a location when nothing else works', async () => {
+    getApproximateLocation.mockRejectedValue(new Error('lookup failed'));
+    const { loadForecast, latestRequestId } = store();
+    const { result } = renderHook(() => useLocationResolution({ latestRequestId, loadForecast }));
+
+    await act(async () => {
+      expect(await result.current.resolveLocation()).toBeNull();
+    });
+    expect(loadForecast).not.toHaveBeenCalled();
+    expect(result.current.needsChoice).toBe(true);
+  });
+
+  it('carries on to the approximate location when the forecast for the position fails', async () => {
+    vi.mocked(isGeolocationSupported).mockReturnValue(true);
+    const { loadForecast, latestRequestId, newRequest } = store();
+    loadForecast.mockImplementationOnce(async () => {
+      newRequest();
+      return null;
+    });
+    const { result } = renderHook(() => useLocationResolution({ latestRequestId, loadForecast }));
+
+    await act(async () => {
+      expect(await result.current.resolveLocation()).not.toBeNull();
+    });
+    expect(loadForecast.mock.calls).toEqual([[POSITION, 'replace'], [IP_LOCATION, 'replace']]);
+    expect(result.current.needsChoice).toBe(false);
+  });
+
+  it('asks for a location when the forecast for the approximate one fails', async () => {
+    const { loadForecast, latestRequestId, newRequest } = store();
+    loadForecast.mockImplementationOnce(async () => {
+      newRequest();
+      return null;
+    });
+    const { result } = renderHook(() => useLocationResolution({ latestRequestId, loadForecast }));
+
+    await act(async () => {
+      expect(await result.current.resolveLocation()).toBeNull();
+    });
+    expect(loadForecast.mock.calls).toEqual([[IP_LOCATION, 'replace']]);
+    expect(result.current.needsChoice).toBe(true);
+  });
+});
@@ -0,0 +1,116 @@
+'use client'
+import { useState, useCallback } from 'react';
+import { ForecastLocation, WeatherForecast, WeatherService } from '../utils/weather';
+import { getCurrentPosition, isGeolocationDenied, isGeolocationSupported } from '../utils/geolocation';
+import { LOCATION_COOKIE, buildUrlSearch } from '../utils/urlState';
+import { HistoryMode } from './useForecastStore';
+
+const STORAGE_KEY = 'weatherapp:lastLocation';
+// The location cookie lasts a year from the last visit
+const COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+// Interface for what the pipeline needs from the forecast store
+interface LocationResolutionOptions {
+  latestRequestId: () => number; // Latest forecast request; a newer one means the user picked a location themselves
+  loadForecast: (location: ForecastLocation, history?: HistoryMode) => Promise<WeatherForecast | null>;
+}
+
+const isForecastLocation = (value: unknown): value is ForecastLocation => {
+  if (typeof value !== 'object' || value === null) return false;
+  const location = value as Record<string, unknown>;
+  return typeof location.city === 'string'
+    || (typeof location.lat === 'number' && typeof location.lon === 'number');
+};
+
+// Read the last shown location from localStorage, ignoring missing or corrupt data
+const loadRememberedLocation = (): ForecastLocation | null => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : null;
+    return isForecastLocation(parsed) ? parsed : null;
+  } catch (error) {
+    console.error('Error loading last location:', error);
+    return null;
+  }
+};
+
+// Remember a location so the next visit starts there. The cookie copy lets the server
+// render that visit's forecast; localStorage covers browsers that drop the cookie.
+export const rememberLocation = (location: ForecastLocation) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(location));
+  } catch (error) {
+    console.error('Error saving last location:', error);
+  }
+  const search = buildUrlSearch({ location, units: null, day: null });
+  document.cookie = `${LOCATION_COOKIE}=${encodeURIComponent(search)}; path=/; max-age=${COOKIE_MAX_AGE}; samesite=lax`;
+};
+
+// Work out which location to show when the URL doesn't name one. Tries, in order:
+// the remembered last location, browser geolocation (unless the user has refused it),
+// and a coarse IP-based location. If none of those work, `needsChoice` asks the page
+// to let the user pick a location themselves.
+export const useLocationResolution = ({ latestRequestId, loadForecast }: LocationResolutionOptions) => {
+  const [resolving, setResolving] = useState(false);
+  const [needsChoice, setNeedsChoice] = useState(false);
+
+  // Resolves to the shown forecast, or null if the user has to choose (or chose meanwhile)
+  const resolveLocation = useCallback(async (): Promise<WeatherForecast | null> => {
+    let startedAt = latestRequestId();
+    // The user searched or picked a location while an earlier step was in progress
+    const superseded = () => latestRequestId() !== startedAt;
+    // Load a step's location. That request is our own; only ones after it were the user's.
+    const load = (location: ForecastLocation) => {
+      const loading = loadForecast(location, 'replace');
+      startedAt = latestRequestId();
+      return loading;
+    };
+
+    // Each step whose forecast can't be shown (a remembered location that no longer exists,
+    // the network being down) falls through to the next, unless the user chose meanwhile
+    const remembered = loadRememberedLocation();
+    if (remembered) {
+      const data = await load(remembered);
+      if (data || superseded()) return data;
+    }
+
+    setResolving(true);
+    try {
+      if (isGeolocationSupported() && !(await isGeolocationDenied())) {
+        try {
+          const position = await getCurrentPosition();
+          if (superseded()) return null;
+          const data = await load(position);
+          if (data || superseded()) return data;
+        } catch (error) {
+          console.warn('Geolocation unavailable, trying IP location:', error);
+        }
+      }
+
+      try {
+        const approximate = await WeatherService.getApproximateLocation();
+        if (superseded()) return null;
+        const data = await load({ lat: approximate.lat, lon: approximate.lon });
+        if (data || superseded()) return data;
+      } catch {
+        // Logged by WeatherService; fall through to asking the user
+      }
+
+      if (!superseded()) setNeedsChoice(true);
+      return null;
+    } finally {
+      setResolving(false);
+    }
+  }, [latestRequestId, loadForecast]);
+
+  // Show the location the user chose and start there from now on
+  const chooseLocation = useCallback((location: ForecastLocation) => {
+    setNeedsChoice(false);
+    rememberLocation(location);
+    return loadForecast(location);
+  }, [loadForecast]);
+
+  return { resolving, needsChoice, resolveLocation, chooseLocation };
+};
+
+export default useLocationResolution;
@@ -0,0 +1,18 @@
+'use client'
+import { useState, useEffect } from 'react';
+
+// Current time (epoch milliseconds), updated every `interval` ms.
+// Null until mounted so server and client render the same initial markup.
+export const useNow = (interval: number = 60 * 1000) => {
+  const [now, setNow] = useState<number | null>(null);
+
+  useEffect(() => {
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), interval);
+    return () => clearInterval(timer);
+  }, [interval]);
+
+  return now;
+};
+
+export default useNow;
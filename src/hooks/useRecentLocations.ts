@@ -0,0 +1,72 @@
+'use client'
+import { useState, useEffect, useCallback } from 'react';
+import { CityInfo, WeatherForecast } from '../utils/weather';
+import { currentConditions } from '../utils/currentConditions';
+import { favoriteKey } from './useFavorites';
+
+const STORAGE_KEY = 'weatherapp:recent';
+const MAX_RECENT = 8;
+
+// Interface for a recently viewed location with a snapshot of its conditions
+export interface RecentLocation extends CityInfo {
+  temp: number; // °C, conditions when last viewed
+  icon: string; // OpenWeatherMap icon code
+}
+
+// Read recent locations from localStorage, ignoring missing or corrupt data
+const loadRecent = (): RecentLocation[] => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Error loading recent locations:', error);
+    return [];
+  }
+};
+
+const saveRecent = (recent: RecentLocation[]) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(recent));
+  } catch (error) {
+    console.error('Error saving recent locations:', error);
+  }
+};
+
+// Recently viewed locations, most recent first, persisted in localStorage
+export const useRecentLocations = () => {
+  const [recent, setRecent] = useState<RecentLocation[]>([]);
+
+  // Load after mount so server and client render the same initial markup
+  useEffect(() => {
+    setRecent(loadRecent());
+  }, []);
+
+  // Record a shown forecast, moving its location to the front
+  const addRecent = useCallback((forecast: WeatherForecast) => {
+    const { city_info: location } = forecast;
+    // Same "now" as the current conditions card, so the marker and the card agree
+    const current = currentConditions(forecast, Date.now());
+    if (!location || !current) return;
+
+    const key = favoriteKey(location);
+    const entry: RecentLocation = {
+      name: location.name,
+      country: location.country,
+      state: location.state,
+      lat: location.lat,
+      lon: location.lon,
+      temp: current.main.temp,
+      icon: current.weather[0]?.icon ?? forecast.daily_forecasts[0].weather_icon,
+    };
+    setRecent((current) => {
+      const next = [entry, ...current.filter((item) => favoriteKey(item) !== key)].slice(0, MAX_RECENT);
+      saveRecent(next);
+      return next;
+    });
+  }, []);
+
+  return { recent, addRecent };
+};
+
+export default useRecentLocations;
@@ -0,0 +1,8 @@
+'use client'
+import { useContext } from 'react';
+import { ThemeContext } from '../components/ThemeProvider';
+
+// Current theme mode, the theme it resolves to, and setters for the mode and sun times
+export const useTheme = () => useContext(ThemeContext);
+
+export default useTheme;
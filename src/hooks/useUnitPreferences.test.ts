@@ -0,0 +1,44 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { DEFAULT_UNIT_PREFERENCES, UNIT_SYSTEM_PRESETS } from '../utils/units';
+import { useUnitPreferences } from './useUnitPreferences';
+
+const STORAGE_KEY = 'weatherapp:units';
+
+const stored = () => JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? 'null');
+
+describe('useUnitPreferences', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('loads saved units, replacing unknown ones with the defaults', () => {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ temperature: 'fahrenheit', windSpeed: 'furlongs', pressure: 42 }));
+    const { result } = renderHook(() => useUnitPreferences());
+
+    expect(result.current.preferences).toEqual({ ...DEFAULT_UNIT_PREFERENCES, temperature: 'fahrenheit' });
+  });
+
+  it('ignores saved preferences that are not an object', () => {
+    window.localStorage.setItem(STORAGE_KEY, '"imperial"');
+    const { result } = renderHook(() => useUnitPreferences());
+
+    expect(result.current.preferences).toEqual(DEFAULT_UNIT_PREFERENCES);
+  });
+
+  it('applies a link’s unit system for the visit without saving it', () => {
+    const { result } = renderHook(() => useUnitPreferences());
+
+    act(() => result.current.applyUnitSystem('imperial'));
+    expect(result.current.preferences).toEqual(UNIT_SYSTEM_PRESETS.imperial);
+    expect(stored()).toBeNull();
+  });
+
+  it('saves units the user chooses', () => {
+    const { result } = renderHook(() => useUnitPreferences());
+
+    act(() => result.current.setPreference('pressure', 'mmHg'));
+    expect(stored()).toEqual({ ...DEFAULT_UNIT_PREFERENCES, pressure: 'mmHg' });
+  });
+});
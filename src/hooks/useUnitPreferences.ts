@@ -0,0 +1,64 @@
+'use client'
+import { useState, useEffect, useCallback } from 'react';
+import { DEFAULT_UNIT_PREFERENCES, UNIT_OPTIONS, UNIT_SYSTEM_PRESETS, UnitPreferences, UnitSystem, unitSystemOf } from '../utils/units';
+
+const STORAGE_KEY = 'weatherapp:units';
+
+// A stored unit for a quantity, or its default if it's missing or no longer one we offer
+const validUnit = <K extends keyof UnitPreferences>(quantity: K, value: unknown): UnitPreferences[K] => {
+  return UNIT_OPTIONS[quantity].find((option) => option.value === value)?.value ?? DEFAULT_UNIT_PREFERENCES[quantity];
+};
+
+// Read preferences from localStorage, filling in defaults for anything missing or corrupt
+const loadPreferences = (): UnitPreferences => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : null;
+    const stored = typeof parsed === 'object' && parsed !== null ? parsed as Record<string, unknown> : {};
+    return {
+      temperature: validUnit('temperature', stored.temperature),
+      windSpeed: validUnit('windSpeed', stored.windSpeed),
+      pressure: validUnit('pressure', stored.pressure),
+      visibility: validUnit('visibility', stored.visibility),
+    };
+  } catch (error) {
+    console.error('Error loading unit preferences:', error);
+    return DEFAULT_UNIT_PREFERENCES;
+  }
+};
+
+const savePreferences = (preferences: UnitPreferences) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.error('Error saving unit preferences:', error);
+  }
+};
+
+// Per-quantity display unit preferences persisted in localStorage
+export const useUnitPreferences = () => {
+  const [preferences, setPreferences] = useState<UnitPreferences>(DEFAULT_UNIT_PREFERENCES);
+
+  // Load after mount so server and client render the same initial markup
+  useEffect(() => {
+    setPreferences(loadPreferences());
+  }, []);
+
+  const setPreference = useCallback(<K extends keyof UnitPreferences>(quantity: K, unit: UnitPreferences[K]) => {
+    setPreferences((current) => {
+      const next = { ...current, [quantity]: unit };
+      savePreferences(next);
+      return next;
+    });
+  }, []);
+
+  // Switch every quantity to a preset, unless the preferences already belong to it. Not saved:
+  // opening someone's ?units= link shouldn't change the units of the next visit.
+  const applyUnitSystem = useCallback((system: UnitSystem) => {
+    setPreferences((current) => (unitSystemOf(current) === system ? current : UNIT_SYSTEM_PRESETS[system]));
+  }, []);
+
+  return { preferences, setPreference, applyUnitSystem };
+};
+
+export default useUnitPreferences;
@@ -0,0 +1,196 @@
+// locales/en.ts
+// English messages. This is the source catalogue: every other locale must define the same keys.
+// Placeholders in braces ("{name}") are filled in by translate().
+const en = {
+  // General
+  'app.loading': 'Loading weather data...',
+  'app.locating': 'Finding your location...',
+  'app.loadingShort': 'Loading...',
+  'app.unknown': 'Unknown',
+  'app.location': 'Location',
+  'app.offline': 'Showing data from {time} (offline)',
+  'theme.label': 'Theme',
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+  'theme.system': 'System',
+  'theme.auto': 'Sunrise/sunset',
+  'contrast.toggle': 'High contrast',
+  'language.label': 'Language',
+
+  // Search
+  'search.placeholder': 'Enter city name...',
+  'search.submit': 'Search for city',
+  'search.currentLocation': 'Get weather for current location',
+
+  // First-run location prompt
+  'locationPrompt.title': 'Choose your location',
+  'locationPrompt.body': 'We could not work out where you are. Search for a city to see its forecast.',
+  'locationPrompt.submit': 'Show forecast',
+
+  // Units
+  'units.settings': 'Unit settings',
+  'units.switchTemperature': 'Switch temperature units to {unit}',
+  'units.celsius': 'Celsius',
+  'units.fahrenheit': 'Fahrenheit',
+  'units.temperature': 'Temperature',
+  'units.windSpeed': 'Wind speed',
+  'units.pressure': 'Pressure',
+  'units.visibility': 'Visibility',
+
+  // Errors and recovery
+  'errors.timeout': 'Connection timed out. The weather server might be slow or unavailable.',
+  'errors.network': 'Could not reach the weather server. Check your internet connection.',
+  'errors.cityNotFound': 'Could not find "{city}". Check the spelling or pick one of the suggestions.',
+  'errors.rateLimited': 'Too many requests. Please wait a moment before trying again.',
+  'errors.server': 'The weather service is having problems. Please try again later.',
+  'errors.geocodingFailed': 'Could not look up that location. Try searching by city name instead.',
+  'errors.invalidResponse': 'The weather server sent data we could not read. Please try again later.',
+  'errors.cancelled': 'Request cancelled.',
+  'errors.geolocationUnsupported': 'Geolocation is not supported by your browser. Search by city name instead.',
+  'errors.geolocationFailed': 'Error getting location: {detail}. Search by city name instead.',
+  'errors.retry': 'Try again',
+  'errors.searchByCity': 'Search by city',
+
+  // Favorites
+  'favorites.add': 'Add to favorites',
+  'favorites.remove': 'Remove from favorites',
+  'favorites.show': 'Show weather for {name}',
+  'favorites.removeNamed': 'Remove {name} from favorites',
+  'favorites.compare': 'Compare',
+  'favorites.hideComparison': 'Hide comparison',
+  'favorites.loadFailed': 'Failed to load weather',
+
+  // Daily forecast
+  'forecast.today': 'Today',
+  'forecast.tomorrow': 'Tomorrow',
+  'forecast.showHourly': 'Show hourly forecast for {day}',
+  'forecast.showDetails': 'Show details for {day}',
+
+  // Day details
+  'detail.close': 'Close details',
+  'detail.temperature': 'Min / Avg / Max temp',
+  'detail.feelsLike': 'Feels like',
+  'detail.range': '{min} to {max}',
+  'detail.pressure': 'Pressure (min / avg / max)',
+  'detail.seaLevel': 'Sea level pressure',
+  'detail.groundLevel': 'Ground level pressure',
+  'detail.humidity': 'Humidity',
+  'detail.cloudCover': 'Cloud cover',
+  'detail.visibility': 'Lowest visibility',
+  'detail.wind': 'Strongest wind',
+  'detail.gust': 'Strongest gust',
+  'detail.pop': 'Precipitation chance',
+  'detail.rain': 'Total rain',
+  'detail.noHourly': 'No hourly data available for this day.',
+
+  // Hourly timeline
+  'hourly.title': 'Hourly forecast · {day}',
+  'hourly.noData': 'No hourly data available for {day}',
+  'hourly.legendTemp': 'Temp',
+  'hourly.legendFeelsLike': 'Feels like',
+  'hourly.legendPop': 'Precip. chance',
+  'hourly.legendRain': 'Rain',
+  'hourly.temperature': 'Temperature: {value}',
+  'hourly.feelsLike': 'Feels like: {value}',
+  'hourly.minMax': 'Min / Max: {min} / {max}',
+  'hourly.humidity': 'Humidity: {value}',
+  'hourly.pressure': 'Pressure: {value}',
+  'hourly.clouds': 'Clouds: {value}',
+  'hourly.wind': 'Wind: {speed} ({deg}°), gust {gust}',
+  'hourly.visibility': 'Visibility: {value}',
+  'hourly.pop': 'Precipitation chance: {value}',
+  'hourly.rain': 'Rain (3h): {value}',
+
+  // Current conditions
+  'wind.title': 'Wind Status',
+  'wind.unknownDirection': 'N/A',
+  'wind.N': 'N',
+  'wind.NE': 'NE',
+  'wind.E': 'E',
+  'wind.SE': 'SE',
+  'wind.S': 'S',
+  'wind.SW': 'SW',
+  'wind.W': 'W',
+  'wind.NW': 'NW',
+  'wind.from': 'Wind from the {direction} ({deg}°)',
+  'wind.name.N': 'north',
+  'wind.name.NE': 'north-east',
+  'wind.name.E': 'east',
+  'wind.name.SE': 'south-east',
+  'wind.name.S': 'south',
+  'wind.name.SW': 'south-west',
+  'wind.name.W': 'west',
+  'wind.name.NW': 'north-west',
+  'humidity.title': 'Humidity',
+  'humidity.meter': 'Relative humidity',
+  'daylight.title': 'Daylight',
+  'daylight.elapsed': '{percent} of daylight elapsed',
+  'daylight.sunDown': 'The sun is down',
+  'daylight.sunrise': 'Sunrise',
+  'daylight.sunset': 'Sunset',
+
+  // Map
+  'map.title': 'Map',
+  'map.hint': 'Click anywhere to see its forecast',
+  'map.recent': '{name}: {temperature}',
+  'map.useCenter': 'Forecast for the map centre',
+
+  // Export
+  'export.menu': 'Export forecast',
+  'export.csv': 'Spreadsheet (CSV)',
+  'export.json': 'Data (JSON)',
+  'export.ics': 'Calendar (iCalendar)',
+  'export.calendarName': 'Weather · {location}',
+  'export.eventSummary': '{description}, {min} / {max}',
+  'export.eventDescription': 'Precipitation chance {pop}\nStrongest wind {wind}, gusts {gust}\nTotal rain {rain}',
+
+  // Forecast history
+  'history.title': 'Forecast drift · {location}',
+  'history.day': 'Forecast day',
+  'history.clear': 'Clear history',
+  'history.noData': 'No earlier forecasts for {day} yet. A snapshot is kept for a week each time a fetch brings a changed forecast.',
+  'history.summary': 'Since {time}: max {max}, min {min}, precipitation chance {pop}',
+  'history.legendMax': 'Max ({unit})',
+  'history.legendMin': 'Min ({unit})',
+  'history.chart': 'How the forecast for {day} changed',
+  'history.point': 'Forecast from {time}: {min} to {max}, precipitation chance {pop}',
+
+  // Embedded widget and shared links
+  'embed.noLocation': 'Add ?q=City or ?lat=…&lon=… to the address to choose a location.',
+  'embed.conditions': 'Feels like {feelsLike} · Wind {wind} · Humidity {humidity}',
+  'embed.open': 'Full forecast',
+  'share.title': 'Weather in {location}',
+  'share.description': 'Now {temperature}, {description}. Today {low} to {high}.',
+
+  // Alerts
+  'alerts.title': 'Weather Alerts · {location}',
+  'alerts.notificationsOn': 'Notifications on',
+  'alerts.enableNotifications': 'Enable notifications',
+  'alerts.triggered': '{metric} {comparator} {threshold} from {time} ({value})',
+  'alerts.noneTriggered': 'No alerts triggered in the current forecast.',
+  'alerts.noRules': 'No alert rules for this location yet.',
+  'alerts.rule': '{day}: {metric} {comparator} {threshold}',
+  'alerts.delete': 'Delete alert rule',
+  'alerts.dayLabel': 'Day',
+  'alerts.metricLabel': 'Metric',
+  'alerts.comparisonLabel': 'Comparison',
+  'alerts.thresholdLabel': 'Threshold',
+  'alerts.add': 'Add',
+  'alerts.above': 'above',
+  'alerts.below': 'below',
+  'alerts.metric.max_temp': 'Max temperature',
+  'alerts.metric.min_temp': 'Min temperature',
+  'alerts.metric.pop': 'Precipitation chance',
+  'alerts.metric.wind_gust': 'Wind gust',
+  'alerts.metric.rain': 'Rain (3h)',
+  'alerts.day.today': 'Today',
+  'alerts.day.tomorrow': 'Tomorrow',
+  'alerts.day.any': 'Any day',
+  'alerts.notificationTitle': 'Weather alert: {location}',
+  'alerts.notificationBody': '{metric} {comparator} threshold from {time}',
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
+
+export default en;
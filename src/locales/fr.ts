@@ -0,0 +1,193 @@
+// locales/fr.ts
+import type { Messages } from './en';
+
+const fr: Messages = {
+  // General
+  'app.loading': 'Chargement de la météo...',
+  'app.locating': 'Recherche de votre position...',
+  'app.loadingShort': 'Chargement...',
+  'app.unknown': 'Inconnu',
+  'app.location': 'Lieu',
+  'app.offline': 'Données de {time} (hors ligne)',
+  'theme.label': 'Thème',
+  'theme.light': 'Clair',
+  'theme.dark': 'Sombre',
+  'theme.system': 'Système',
+  'theme.auto': 'Lever/coucher du soleil',
+  'contrast.toggle': 'Contraste élevé',
+  'language.label': 'Langue',
+
+  // Search
+  'search.placeholder': 'Nom de la ville...',
+  'search.submit': 'Rechercher une ville',
+  'search.currentLocation': 'Météo à ma position',
+
+  // First-run location prompt
+  'locationPrompt.title': 'Choisissez votre lieu',
+  'locationPrompt.body': 'Impossible de déterminer où vous êtes. Recherchez une ville pour voir sa météo.',
+  'locationPrompt.submit': 'Voir la météo',
+
+  // Units
+  'units.settings': 'Réglages des unités',
+  'units.switchTemperature': 'Passer les températures en {unit}',
+  'units.celsius': 'Celsius',
+  'units.fahrenheit': 'Fahrenheit',
+  'units.temperature': 'Température',
+  'units.windSpeed': 'Vitesse du vent',
+  'units.pressure': 'Pression',
+  'units.visibility': 'Visibilité',
+
+  // Errors and recovery
+  'errors.timeout': 'Délai de connexion dépassé. Le serveur météo est peut-être lent ou indisponible.',
+  'errors.network': 'Impossible de joindre le serveur météo. Vérifiez votre connexion internet.',
+  'errors.cityNotFound': 'Impossible de trouver « {city} ». Vérifiez l’orthographe ou choisissez une suggestion.',
+  'errors.rateLimited': 'Trop de requêtes. Patientez un instant avant de réessayer.',
+  'errors.server': 'Le service météo rencontre des problèmes. Réessayez plus tard.',
+  'errors.geocodingFailed': 'Impossible de localiser ce lieu. Essayez plutôt de rechercher une ville.',
+  'errors.invalidResponse': 'Le serveur météo a envoyé des données illisibles. Réessayez plus tard.',
+  'errors.cancelled': 'Requête annulée.',
+  'errors.geolocationUnsupported': 'Votre navigateur ne prend pas en charge la géolocalisation. Recherchez plutôt une ville.',
+  'errors.geolocationFailed': 'Erreur de localisation : {detail}. Recherchez plutôt une ville.',
+  'errors.retry': 'Réessayer',
+  'errors.searchByCity': 'Rechercher une ville',
+
+  // Favorites
+  'favorites.add': 'Ajouter aux favoris',
+  'favorites.remove': 'Retirer des favoris',
+  'favorites.show': 'Afficher la météo de {name}',
+  'favorites.removeNamed': 'Retirer {name} des favoris',
+  'favorites.compare': 'Comparer',
+  'favorites.hideComparison': 'Masquer la comparaison',
+  'favorites.loadFailed': 'Échec du chargement de la météo',
+
+  // Daily forecast
+  'forecast.today': 'Aujourd’hui',
+  'forecast.tomorrow': 'Demain',
+  'forecast.showHourly': 'Afficher les prévisions horaires de {day}',
+  'forecast.showDetails': 'Afficher le détail de {day}',
+
+  // Day details
+  'detail.close': 'Fermer le détail',
+  'detail.temperature': 'Temp. min / moy. / max',
+  'detail.feelsLike': 'Ressenti',
+  'detail.range': '{min} à {max}',
+  'detail.pressure': 'Pression (min / moy. / max)',
+  'detail.seaLevel': 'Pression au niveau de la mer',
+  'detail.groundLevel': 'Pression au sol',
+  'detail.humidity': 'Humidité',
+  'detail.cloudCover': 'Couverture nuageuse',
+  'detail.visibility': 'Visibilité minimale',
+  'detail.wind': 'Vent le plus fort',
+  'detail.gust': 'Rafale la plus forte',
+  'detail.pop': 'Probabilité de précipitations',
+  'detail.rain': 'Pluie totale',
+  'detail.noHourly': 'Aucune donnée horaire pour ce jour.',
+
+  // Hourly timeline
+  'hourly.title': 'Prévisions horaires · {day}',
+  'hourly.noData': 'Aucune donnée horaire pour {day}',
+  'hourly.legendTemp': 'Temp.',
+  'hourly.legendFeelsLike': 'Ressenti',
+  'hourly.legendPop': 'Prob. précip.',
+  'hourly.legendRain': 'Pluie',
+  'hourly.temperature': 'Température : {value}',
+  'hourly.feelsLike': 'Ressenti : {value}',
+  'hourly.minMax': 'Min / Max : {min} / {max}',
+  'hourly.humidity': 'Humidité : {value}',
+  'hourly.pressure': 'Pression : {value}',
+  'hourly.clouds': 'Nuages : {value}',
+  'hourly.wind': 'Vent : {speed} ({deg}°), rafales {gust}',
+  'hourly.visibility': 'Visibilité : {value}',
+  'hourly.pop': 'Probabilité de précipitations : {value}',
+  'hourly.rain': 'Pluie (3 h) : {value}',
+
+  // Current conditions
+  'wind.title': 'Vent',
+  'wind.unknownDirection': 'N/D',
+  'wind.N': 'N',
+  'wind.NE': 'NE',
+  'wind.E': 'E',
+  'wind.SE': 'SE',
+  'wind.S': 'S',
+  'wind.SW': 'SO',
+  'wind.W': 'O',
+  'wind.NW': 'NO',
+  'wind.from': 'Vent de secteur {direction} ({deg}°)',
+  'wind.name.N': 'nord',
+  'wind.name.NE': 'nord-est',
+  'wind.name.E': 'est',
+  'wind.name.SE': 'sud-est',
+  'wind.name.S': 'sud',
+  'wind.name.SW': 'sud-ouest',
+  'wind.name.W': 'ouest',
+  'wind.name.NW': 'nord-ouest',
+  'humidity.title': 'Humidité',
+  'humidity.meter': 'Humidité relative',
+  'daylight.title': 'Ensoleillement',
+  'daylight.elapsed': '{percent} de la journée écoulée',
+  'daylight.sunDown': 'Le soleil est couché',
+  'daylight.sunrise': 'Lever du soleil',
+  'daylight.sunset': 'Coucher du soleil',
+
+  // Map
+  'map.title': 'Carte',
+  'map.hint': 'Cliquez n’importe où pour voir sa météo',
+  'map.recent': '{name} : {temperature}',
+  'map.useCenter': 'Météo au centre de la carte',
+
+  // Export
+  'export.menu': 'Exporter les prévisions',
+  'export.csv': 'Tableur (CSV)',
+  'export.json': 'Données (JSON)',
+  'export.ics': 'Calendrier (iCalendar)',
+  'export.calendarName': 'Météo · {location}',
+  'export.eventSummary': '{description}, {min} / {max}',
+  'export.eventDescription': 'Probabilité de précipitations {pop}\nVent le plus fort {wind}, rafales {gust}\nPluie totale {rain}',
+
+  // Forecast history
+  'history.title': 'Évolution des prévisions · {location}',
+  'history.day': 'Jour prévu',
+  'history.clear': 'Effacer l’historique',
+  'history.noData': 'Pas encore de prévisions antérieures pour {day}. Une copie est conservée pendant une semaine à chaque chargement qui apporte une prévision modifiée.',
+  'history.summary': 'Depuis {time} : max {max}, min {min}, probabilité de précipitations {pop}',
+  'history.legendMax': 'Max ({unit})',
+  'history.legendMin': 'Min ({unit})',
+  'history.chart': 'Évolution des prévisions pour {day}',
+  'history.point': 'Prévision de {time} : {min} à {max}, probabilité de précipitations {pop}',
+
+  // Embedded widget and shared links
+  'embed.noLocation': 'Ajoutez ?q=Ville ou ?lat=…&lon=… à l’adresse pour choisir un lieu.',
+  'embed.conditions': 'Ressenti {feelsLike} · Vent {wind} · Humidité {humidity}',
+  'embed.open': 'Prévisions complètes',
+  'share.title': 'Météo à {location}',
+  'share.description': 'Actuellement {temperature}, {description}. Aujourd’hui de {low} à {high}.',
+
+  // Alerts
+  'alerts.title': 'Alertes météo · {location}',
+  'alerts.notificationsOn': 'Notifications activées',
+  'alerts.enableNotifications': 'Activer les notifications',
+  'alerts.triggered': '{metric} {comparator} {threshold} à partir de {time} ({value})',
+  'alerts.noneTriggered': 'Aucune alerte déclenchée dans les prévisions actuelles.',
+  'alerts.noRules': 'Aucune règle d’alerte pour ce lieu.',
+  'alerts.rule': '{day} : {metric} {comparator} {threshold}',
+  'alerts.delete': 'Supprimer la règle',
+  'alerts.dayLabel': 'Jour',
+  'alerts.metricLabel': 'Mesure',
+  'alerts.comparisonLabel': 'Comparaison',
+  'alerts.thresholdLabel': 'Seuil',
+  'alerts.add': 'Ajouter',
+  'alerts.above': 'au-dessus de',
+  'alerts.below': 'en dessous de',
+  'alerts.metric.max_temp': 'Température max',
+  'alerts.metric.min_temp': 'Température min',
+  'alerts.metric.pop': 'Probabilité de précipitations',
+  'alerts.metric.wind_gust': 'Rafales',
+  'alerts.metric.rain': 'Pluie (3 h)',
+  'alerts.day.today': 'Aujourd’hui',
+  'alerts.day.tomorrow': 'Demain',
+  'alerts.day.any': 'N’importe quel jour',
+  'alerts.notificationTitle': 'Alerte météo : {location}',
+  'alerts.notificationBody': '{metric} {comparator} du seuil à partir de {time}',
+};
+
+export default fr;
@@ -0,0 +1,193 @@
+// locales/sw.ts
+import type { Messages } from './en';
+
+const sw: Messages = {
+  // General
+  'app.loading': 'Inapakia taarifa za hali ya hewa...',
+  'app.locating': 'Inatafuta mahali ulipo...',
+  'app.loadingShort': 'Inapakia...',
+  'app.unknown': 'Haijulikani',
+  'app.location': 'Mahali',
+  'app.offline': 'Inaonyesha data ya {time} (nje ya mtandao)',
+  'theme.label': 'Mandhari',
+  'theme.light': 'Angavu',
+  'theme.dark': 'Giza',
+  'theme.system': 'Mfumo',
+  'theme.auto': 'Macheo/machweo',
+  'contrast.toggle': 'Utofautishaji mkubwa',
+  'language.label': 'Lugha',
+
+  // Search
+  'search.placeholder': 'Andika jina la mji...',
+  'search.submit': 'Tafuta mji',
+  'search.currentLocation': 'Hali ya hewa mahali ulipo',
+
+  // First-run location prompt
+  'locationPrompt.title': 'Chagua mahali ulipo',
+  'locationPrompt.body': 'Hatukuweza kujua mahali ulipo. Tafuta mji uone utabiri wake.',
+  'locationPrompt.submit': 'Onyesha utabiri',
+
+  // Units
+  'units.settings': 'Mipangilio ya vipimo',
+  'units.switchTemperature': 'Badilisha halijoto kuwa {unit}',
+  'units.celsius': 'Selsiasi',
+  'units.fahrenheit': 'Farenheiti',
+  'units.temperature': 'Halijoto',
+  'units.windSpeed': 'Kasi ya upepo',
+  'units.pressure': 'Mgandamizo',
+  'units.visibility': 'Uonekano',
+
+  // Errors and recovery
+  'errors.timeout': 'Muda wa muunganisho umekwisha. Seva ya hali ya hewa inaweza kuwa ya polepole au haipatikani.',
+  'errors.network': 'Imeshindwa kufikia seva ya hali ya hewa. Angalia muunganisho wako wa intaneti.',
+  'errors.cityNotFound': 'Hatukupata "{city}". Angalia tahajia au chagua mojawapo ya mapendekezo.',
+  'errors.rateLimited': 'Maombi ni mengi mno. Tafadhali subiri kidogo kabla ya kujaribu tena.',
+  'errors.server': 'Huduma ya hali ya hewa ina matatizo. Tafadhali jaribu tena baadaye.',
+  'errors.geocodingFailed': 'Imeshindwa kupata mahali hapo. Jaribu kutafuta kwa jina la mji badala yake.',
+  'errors.invalidResponse': 'Seva ya hali ya hewa imetuma data isiyosomeka. Tafadhali jaribu tena baadaye.',
+  'errors.cancelled': 'Ombi limeghairiwa.',
+  'errors.geolocationUnsupported': 'Kivinjari chako hakitumii utambuzi wa mahali. Tafuta kwa jina la mji badala yake.',
+  'errors.geolocationFailed': 'Hitilafu ya kupata mahali: {detail}. Tafuta kwa jina la mji badala yake.',
+  'errors.retry': 'Jaribu tena',
+  'errors.searchByCity': 'Tafuta kwa mji',
+
+  // Favorites
+  'favorites.add': 'Ongeza kwenye vipendwa',
+  'favorites.remove': 'Ondoa kwenye vipendwa',
+  'favorites.show': 'Onyesha hali ya hewa ya {name}',
+  'favorites.removeNamed': 'Ondoa {name} kwenye vipendwa',
+  'favorites.compare': 'Linganisha',
+  'favorites.hideComparison': 'Ficha ulinganisho',
+  'favorites.loadFailed': 'Imeshindwa kupakia hali ya hewa',
+
+  // Daily forecast
+  'forecast.today': 'Leo',
+  'forecast.tomorrow': 'Kesho',
+  'forecast.showHourly': 'Onyesha utabiri wa kila saa wa {day}',
+  'forecast.showDetails': 'Onyesha maelezo ya {day}',
+
+  // Day details
+  'detail.close': 'Funga maelezo',
+  'detail.temperature': 'Halijoto ya chini / wastani / juu',
+  'detail.feelsLike': 'Inavyohisiwa',
+  'detail.range': '{min} hadi {max}',
+  'detail.pressure': 'Mgandamizo (chini / wastani / juu)',
+  'detail.seaLevel': 'Mgandamizo usawa wa bahari',
+  'detail.groundLevel': 'Mgandamizo ardhini',
+  'detail.humidity': 'Unyevu',
+  'detail.cloudCover': 'Mawingu',
+  'detail.visibility': 'Uonekano wa chini kabisa',
+  'detail.wind': 'Upepo mkali zaidi',
+  'detail.gust': 'Dhoruba kali zaidi',
+  'detail.pop': 'Uwezekano wa mvua',
+  'detail.rain': 'Jumla ya mvua',
+  'detail.noHourly': 'Hakuna data ya kila saa kwa siku hii.',
+
+  // Hourly timeline
+  'hourly.title': 'Utabiri wa kila saa · {day}',
+  'hourly.noData': 'Hakuna data ya kila saa kwa {day}',
+  'hourly.legendTemp': 'Halijoto',
+  'hourly.legendFeelsLike': 'Inavyohisiwa',
+  'hourly.legendPop': 'Uwezekano wa mvua',
+  'hourly.legendRain': 'Mvua',
+  'hourly.temperature': 'Halijoto: {value}',
+  'hourly.feelsLike': 'Inavyohisiwa: {value}',
+  'hourly.minMax': 'Chini / Juu: {min} / {max}',
+  'hourly.humidity': 'Unyevu: {value}',
+  'hourly.pressure': 'Mgandamizo: {value}',
+  'hourly.clouds': 'Mawingu: {value}',
+  'hourly.wind': 'Upepo: {speed} ({deg}°), dhoruba {gust}',
+  'hourly.visibility': 'Uonekano: {value}',
+  'hourly.pop': 'Uwezekano wa mvua: {value}',
+  'hourly.rain': 'Mvua (saa 3): {value}',
+
+  // Current conditions
+  'wind.title': 'Hali ya Upepo',
+  'wind.unknownDirection': 'Haipo',
+  'wind.N': 'Kaskazini',
+  'wind.NE': 'Kaskazini Mashariki',
+  'wind.E': 'Mashariki',
+  'wind.SE': 'Kusini Mashariki',
+  'wind.S': 'Kusini',
+  'wind.SW': 'Kusini Magharibi',
+  'wind.W': 'Magharibi',
+  'wind.NW': 'Kaskazini Magharibi',
+  'wind.from': 'Upepo kutoka {direction} ({deg}°)',
+  'wind.name.N': 'kaskazini',
+  'wind.name.NE': 'kaskazini mashariki',
+  'wind.name.E': 'mashariki',
+  'wind.name.SE': 'kusini mashariki',
+  'wind.name.S': 'kusini',
+  'wind.name.SW': 'kusini magharibi',
+  'wind.name.W': 'magharibi',
+  'wind.name.NW': 'kaskazini magharibi',
+  'humidity.title': 'Unyevu',
+  'humidity.meter': 'Unyevu wa hewa',
+  'daylight.title': 'Mchana',
+  'daylight.elapsed': '{percent} ya mchana imepita',
+  'daylight.sunDown': 'Jua limezama',
+  'daylight.sunrise': 'Macheo',
+  'daylight.sunset': 'Machweo',
+
+  // Map
+  'map.title': 'Ramani',
+  'map.hint': 'Bofya popote kuona utabiri wake',
+  'map.recent': '{name}: {temperature}',
+  'map.useCenter': 'Utabiri wa katikati ya ramani',
+
+  // Export
+  'export.menu': 'Hamisha utabiri',
+  'export.csv': 'Lahajedwali (CSV)',
+  'export.json': 'Data (JSON)',
+  'export.ics': 'Kalenda (iCalendar)',
+  'export.calendarName': 'Hali ya hewa · {location}',
+  'export.eventSummary': '{description}, {min} / {max}',
+  'export.eventDescription': 'Uwezekano wa mvua {pop}\nUpepo mkali zaidi {wind}, dhoruba {gust}\nJumla ya mvua {rain}',
+
+  // Forecast history
+  'history.title': 'Mabadiliko ya utabiri · {location}',
+  'history.day': 'Siku ya utabiri',
+  'history.clear': 'Futa historia',
+  'history.noData': 'Bado hakuna utabiri wa awali wa {day}. Nakala huhifadhiwa kwa wiki moja kila utabiri uliobadilika unapopakiwa.',
+  'history.summary': 'Tangu {time}: juu {max}, chini {min}, uwezekano wa mvua {pop}',
+  'history.legendMax': 'Juu ({unit})',
+  'history.legendMin': 'Chini ({unit})',
+  'history.chart': 'Jinsi utabiri wa {day} ulivyobadilika',
+  'history.point': 'Utabiri wa {time}: {min} hadi {max}, uwezekano wa mvua {pop}',
+
+  // Embedded widget and shared links
+  'embed.noLocation': 'Ongeza ?q=Mji au ?lat=…&lon=… kwenye anwani ili kuchagua mahali.',
+  'embed.conditions': 'Inavyohisiwa {feelsLike} · Upepo {wind} · Unyevu {humidity}',
+  'embed.open': 'Utabiri kamili',
+  'share.title': 'Hali ya hewa {location}',
+  'share.description': 'Sasa {temperature}, {description}. Leo {low} hadi {high}.',
+
+  // Alerts
+  'alerts.title': 'Tahadhari za Hali ya Hewa · {location}',
+  'alerts.notificationsOn': 'Arifa zimewashwa',
+  'alerts.enableNotifications': 'Washa arifa',
+  'alerts.triggered': '{metric} {comparator} {threshold} kuanzia {time} ({value})',
+  'alerts.noneTriggered': 'Hakuna tahadhari katika utabiri wa sasa.',
+  'alerts.noRules': 'Bado hakuna kanuni za tahadhari kwa mahali hapa.',
+  'alerts.rule': '{day}: {metric} {comparator} {threshold}',
+  'alerts.delete': 'Futa kanuni ya tahadhari',
+  'alerts.dayLabel': 'Siku',
+  'alerts.metricLabel': 'Kipimo',
+  'alerts.comparisonLabel': 'Ulinganisho',
+  'alerts.thresholdLabel': 'Kiwango',
+  'alerts.add': 'Ongeza',
+  'alerts.above': 'juu ya',
+  'alerts.below': 'chini ya',
+  'alerts.metric.max_temp': 'Halijoto ya juu',
+  'alerts.metric.min_temp': 'Halijoto ya chini',
+  'alerts.metric.pop': 'Uwezekano wa mvua',
+  'alerts.metric.wind_gust': 'Dhoruba ya upepo',
+  'alerts.metric.rain': 'Mvua (saa 3)',
+  'alerts.day.today': 'Leo',
+  'alerts.day.tomorrow': 'Kesho',
+  'alerts.day.any': 'Siku yoyote',
+  'alerts.notificationTitle': 'Tahadhari ya hali ya hewa: {location}',
+  'alerts.notificationBody': '{metric} {comparator} kiwango kuanzia {time}',
+};
+
+export default sw;
@@ -0,0 +1,56 @@
+// server/cache.ts
+// In-memory response cache shared by the API proxy routes. Lives for the lifetime of the
+// server process; each instance of a scaled-out deployment keeps its own copy.
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+// Entries beyond this are evicted oldest-first
+const MAX_ENTRIES = 500;
+
+// Kept on globalThis so every route bundle (and dev-mode hot reloads) share the same cache
+const store = globalThis as typeof globalThis & {
+  __proxyCache?: {
+    entries: Map<string, CacheEntry<unknown>>;
+    // Upstream requests currently in flight, so concurrent identical requests share one call
+    pending: Map<string, Promise<unknown>>;
+  };
+};
+store.__proxyCache ??= { entries: new Map(), pending: new Map() };
+const { entries, pending } = store.__proxyCache;
+
+// Get a cached value, or compute and cache it for `ttl` milliseconds
+export const cached = async <T>(key: string, ttl: number, load: () => Promise<T>): Promise<T> => {
+  const entry = entries.get(key);
+  if (entry && entry.expiresAt > Date.now()) {
+    return entry.value as T;
+  }
+  entries.delete(key);
+
+  const inFlight = pending.get(key);
+  if (inFlight) return inFlight as Promise<T>;
+
+  const promise = load()
+    .then((value) => {
+      entries.set(key, { value, expiresAt: Date.now() + ttl });
+      if (entries.size > MAX_ENTRIES) {
+        // Maps iterate in insertion order, so the first key is the oldest
+        entries.delete(entries.keys().next().value as string);
+      }
+      return value;
+    })
+    .finally(() => {
+      pending.delete(key);
+    });
+
+  pending.set(key, promise);
+  return promise;
+};
+
+// Drop every cached entry (used when upstream configuration changes, e.g. in tests)
+export const clearCache = () => {
+  entries.clear();
+  pending.clear();
+};
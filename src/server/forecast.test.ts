@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import forecastJson from './providers/fixtures/forecast-nairobi.json';
+import { nairobiForecast } from '../test/fixtures';
+import { clearCache } from './cache';
+import { fetchForecast, fetchInitialForecast, forecastHeadline } from './forecast';
+import { RateLimitError } from './proxy';
+import { weatherProvider, WeatherProvider } from './providers';
+
+vi.mock('./providers', () => ({ weatherProvider: vi.fn() }));
+
+// Address the forecasts are fetched for, as clientIp would give it
+const CLIENT = '203.0.113.7';
+
+const forecastByCity = vi.fn<WeatherProvider['forecastByCity']>();
+
+beforeEach(() => {
+  vi.mocked(weatherProvider).mockReturnValue({
+    id: 'stub',
+    forecastByCity,
+    forecastByCoords: vi.fn(),
+    searchPlaces: vi.fn(),
+    reverseGeocode: vi.fn(),
+  });
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  forecastByCity.mockReset();
+  clearCache();
+  delete process.env.RATE_LIMIT_PER_MINUTE;
+});
+
+describe('fetchForecast', () => {
+  it('counts every fetch against the client’s rate limit, cached or not', async () => {
+    process.env.RATE_LIMIT_PER_MINUTE = '2';
+    forecastByCity.mockResolvedValue(nairobiForecast());
+    const client = '198.51.100.20';
+
+    await fetchForecast({ city: 'Nairobi' }, 'metric', 'en', client);
+    await fetchForecast({ city: 'Nairobi' }, 'metric', 'en', client);
+    await expect(fetchForecast({ city: 'Mombasa' }, 'metric', 'en', client)).rejects.toBeInstanceOf(RateLimitError);
+    expect(forecastByCity).toHaveBeenCalledOnce();
+
+    await fetchForecast({ city: 'Mombasa' }, 'metric', 'en', '198.51.100.21');
+    expect(forecastByCity).toHaveBeenLastCalledWith('Mombasa', { units: 'metric', lang: 'en' });
+  });
+});
+
+describe('fetchInitialForecast', () => {
+  it('hands over the validated forecast', async () => {
+    const raw = structuredClone(forecastJson) as Record<string, unknown>;
+    delete raw.city_info;
+    forecastByCity.mockResolvedValue(raw as never);
+
+    const initial = await fetchInitialForecast({ city: 'Nairobi' }, 'en', CLIENT);
+    expect(forecastByCity).toHaveBeenCalledWith('Nairobi', { units: 'metric', lang: 'en' });
+    expect(initial.data).toEqual({ ...nairobiForecast(), city_info: expect.objectContaining({ name: 'Nairobi' }) });
+    expect(initial.location).toEqual({ city: 'Nairobi' });
+    expect(initial.lang).toBe('en');
+  });
+
+  it('leaves a malformed forecast for the client to fetch and report', async () => {
+    forecastByCity.mockResolvedValue({ ...nairobiForecast(), daily_forecasts: [] });
+
+    const initial = await fetchInitialForecast({ city: 'Nairobi' }, 'en', CLIENT);
+    expect(initial.data).toBeNull();
+    expect(console.error).toHaveBeenCalledWith('Error fetching initial forecast:', expect.objectContaining({ name: 'ResponseValidationError' }));
+  });
+
+  it('leaves a failed fetch for the client to report', async () => {
+    forecastByCity.mockRejectedValue(new Error('upstream down'));
+    expect((await fetchInitialForecast({ city: 'Nairobi' }, 'en', CLIENT)).data).toBeNull();
+  });
+
+  it('skips the prefetch quietly for a client over its rate limit', async () => {
+    process.env.RATE_LIMIT_PER_MINUTE = '1';
+    forecastByCity.mockResolvedValue(nairobiForecast());
+    const client = '198.51.100.30';
+    await fetchForecast({ city: 'Mombasa' }, 'metric', 'en', client);
+    forecastByCity.mockClear();
+
+    expect((await fetchInitialForecast({ city: 'Nairobi' }, 'en', client)).data).toBeNull();
+    expect(forecastByCity).not.toHaveBeenCalled();
+    expect(console.error).not.toHaveBeenCalled();
+  });
+});
+
+describe('forecastHeadline', () => {
+  it('sums up the current conditions and today’s range', () => {
+    // 10 March 2025, 12:00 UTC: exactly on the fixture's second slot
+    const forecast = nairobiForecast();
+    const slot = forecast.daily_forecasts[0].hourly_forecasts[1];
+    const headline = forecastHeadline(forecast, Date.UTC(2025, 2, 10, 12));
+
+    expect(headline.location).toBe('Nairobi, KE');
+    expect(headline.temperature).toBe(slot.main.temp);
+    expect(headline.description).toBe(slot.weather[0].description);
+    expect(headline.high).toBeGreaterThanOrEqual(headline.temperature);
+    expect(headline.low).toBeLessThanOrEqual(headline.temperature);
+  });
+
+  it('rejects a forecast without days', () => {
+    expect(() => forecastHeadline({ ...nairobiForecast(), daily_forecasts: [] }, Date.now())).toThrow('Forecast has no days');
+  });
+});
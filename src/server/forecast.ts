@@ -0,0 +1,89 @@
+// server/forecast.ts
+// Forecasts from the configured provider through the shared cache, for the forecast API
+// route and for server-rendered pages and images (first paint, embed widget, Open Graph images)
+import type { ForecastLocation, InitialForecast, WeatherForecast } from '../utils/weather';
+import { currentConditions } from '../utils/currentConditions';
+import { validateWeatherForecast } from '../utils/validation';
+import { RateLimitError, cacheKey, cachedForClient } from './proxy';
+import { Units, weatherProvider } from './providers';
+
+// Forecasts change every few hours upstream; 10 minutes keeps them fresh enough
+export const FORECAST_TTL = 10 * 60 * 1000;
+
+// Cache key and loader for a forecast, shared so every caller hits the same cache entries.
+// Coordinates are rounded to ~100m so nearby requests share an entry.
+export const forecastRequest = (location: ForecastLocation, units: Units, lang?: string) => {
+  const provider = weatherProvider();
+
+  if ('city' in location) {
+    const { city } = location;
+    return {
+      key: cacheKey(provider.id, '/forecast/city', { city, units, ...(lang && { lang }) }),
+      load: () => provider.forecastByCity(city, { units, lang })
+    };
+  }
+
+  const latitude = Number(location.lat.toFixed(3));
+  const longitude = Number(location.lon.toFixed(3));
+  return {
+    key: cacheKey(provider.id, '/forecast/coordinates', { latitude, longitude, units, ...(lang && { lang }) }),
+    load: () => provider.forecastByCoords(latitude, longitude, { units, lang })
+  };
+};
+
+// Get a forecast for a client (see clientIp) through the shared cache and its rate limit,
+// validated as the client validates the API route's (the backend's answers are passed through
+// as-is). Throws UpstreamErrors like the providers do, a RateLimitError when the client is
+// over its limit, and a ResponseValidationError for a malformed forecast.
+export const fetchForecast = async (location: ForecastLocation, units: Units, lang: string, client: string): Promise<WeatherForecast> => {
+  const { key, load } = forecastRequest(location, units, lang);
+  return validateWeatherForecast(await cachedForClient(client, key, FORECAST_TTL, load));
+};
+
+// Get the forecast a page starts with. Failures, including a malformed forecast, resolve
+// without data rather than rejecting, as does a client over its rate limit, so the page still
+// renders and the client fetches (and reports) the forecast itself.
+export const fetchInitialForecast = async (location: ForecastLocation, lang: string, client: string): Promise<InitialForecast> => {
+  try {
+    const data = await fetchForecast(location, 'metric', lang, client);
+    return { location, lang, data, fetchedAt: Date.now() };
+  } catch (error) {
+    // Over the caller's rate limit the client simply loads the forecast itself
+    if (!(error instanceof RateLimitError)) {
+      console.error('Error fetching initial forecast:', error);
+    }
+    return { location, lang, data: null, fetchedAt: Date.now() };
+  }
+};
+
+// Interface for the headline figures of a forecast, as shown in shared link previews
+export interface ForecastHeadline {
+  location: string;    // "Nairobi, KE"
+  temperature: number; // °C now
+  description: string;
+  icon: string;        // OpenWeather icon code
+  high: number;        // °C, today
+  low: number;         // °C, today
+}
+
+// Current conditions and today's range for a forecast fetched in metric units. Throws for a
+// forecast without days, which fetchForecast's validation already rules out.
+export const forecastHeadline = (forecast: WeatherForecast, nowMs: number): ForecastHeadline => {
+  const today = forecast.daily_forecasts[0];
+  if (!today) {
+    throw new Error('Forecast has no days');
+  }
+  const current = currentConditions(forecast, nowMs);
+  const { name, country } = forecast.city_info;
+  const temperature = current?.main.temp ?? today.avg_temp;
+
+  return {
+    location: country ? `${name}, ${country}` : name,
+    temperature,
+    description: current?.weather[0]?.description ?? today.weather_description,
+    icon: current?.weather[0]?.icon ?? today.weather_icon,
+    // Late in the day only a slot or two is left, which the current temperature can fall outside
+    high: Math.max(today.max_temp, temperature),
+    low: Math.min(today.min_temp, temperature),
+  };
+};
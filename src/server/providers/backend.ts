@@ -0,0 +1,34 @@
+// server/providers/backend.ts
+// The weather backend (an OpenWeather forecast proxy), with Nominatim for place names
+import type { WeatherForecast } from '../../utils/weather';
+import { fetchUpstream } from '../proxy';
+import { weatherUpstream } from '../upstreams';
+import { nominatimGeocoder, nominatimScope } from './nominatim';
+import type { WeatherProvider } from './types';
+
+export const backendProvider = (): WeatherProvider => {
+  const upstream = weatherUpstream();
+
+  return {
+    id: `backend:${upstream.defaults.baseURL}|${nominatimScope()}`,
+
+    // The backend already answers in our shape, so its responses are passed through and
+    // validated by their consumers (the client, and fetchForecast for server-rendered pages)
+    forecastByCity: async (city, { units, lang }) => {
+      const data = await fetchUpstream(upstream, '/api/weather/forecast/city', { city, units, ...(lang && { lang }) });
+      return data as WeatherForecast;
+    },
+
+    forecastByCoords: async (lat, lon, { units, lang }) => {
+      const data = await fetchUpstream(upstream, '/api/weather/forecast/coordinates', {
+        latitude: lat.toFixed(3),
+        longitude: lon.toFixed(3),
+        units,
+        ...(lang && { lang })
+      });
+      return data as WeatherForecast;
+    },
+
+    ...nominatimGeocoder(),
+  };
+};
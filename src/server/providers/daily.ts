@@ -0,0 +1,52 @@
+// server/providers/daily.ts
+// Group hourly slots into the backend's per-day summaries, for providers that only have
+// hourly data. Days are calendar dates at the location (UTC offset in seconds).
+import type { DailyForecast, HourlyForecast } from '../../utils/weather';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// "YYYY-MM-DD" of a slot at the location
+const localDate = (dt: number, timezoneOffset: number) => {
+  return new Date((dt + timezoneOffset) * 1000).toISOString().slice(0, 10);
+};
+
+// Seconds from local midday, used to pick the slot that represents the day
+const distanceFromMidday = (dt: number, timezoneOffset: number) => {
+  const secondsIntoDay = (((dt + timezoneOffset) % 86400) + 86400) % 86400;
+  return Math.abs(secondsIntoDay - 12 * 3600);
+};
+
+// UTC "YYYY-MM-DD HH:MM:SS" text for a slot, as OpenWeather writes dt_txt
+export const formatDtText = (dt: number): string => {
+  return new Date(dt * 1000).toISOString().slice(0, 19).replace('T', ' ');
+};
+
+// Daily forecasts from time-ordered slots. The day's conditions are those of the slot
+// nearest local midday, shown with the daytime icon.
+export const groupIntoDays = (slots: HourlyForecast[], timezoneOffset: number): DailyForecast[] => {
+  const days = new Map<string, HourlyForecast[]>();
+  for (const slot of slots) {
+    const date = localDate(slot.dt, timezoneOffset);
+    days.set(date, [...(days.get(date) ?? []), slot]);
+  }
+
+  return [...days].map(([date, hours]) => {
+    const temps = hours.map((hour) => hour.main.temp);
+    const representative = hours.reduce((best, hour) => (
+      distanceFromMidday(hour.dt, timezoneOffset) < distanceFromMidday(best.dt, timezoneOffset) ? hour : best
+    ));
+    const weather = representative.weather[0];
+
+    return {
+      date,
+      day_of_week: WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()],
+      avg_temp: temps.reduce((total, temp) => total + temp, 0) / temps.length,
+      min_temp: Math.min(...hours.map((hour) => hour.main.temp_min)),
+      max_temp: Math.max(...hours.map((hour) => hour.main.temp_max)),
+      weather_condition: weather?.main ?? '',
+      weather_description: weather?.description ?? '',
+      weather_icon: weather ? weather.icon.replace(/n$/, 'd') : '',
+      hourly_forecasts: hours,
+    };
+  });
+};
@@ -0,0 +1,26 @@
+// server/providers/index.ts
+// The weather provider behind the API routes, chosen by WEATHER_PROVIDER (see server/upstreams.ts)
+import { backendProvider } from './backend';
+import { mockProvider } from './mock';
+import { openMeteoProvider } from './openMeteo';
+import type { WeatherProvider } from './types';
+
+export type { ForecastOptions, ProviderOptions, SearchOptions, Units, WeatherProvider } from './types';
+
+const PROVIDERS: Record<string, () => WeatherProvider> = {
+  'backend': backendProvider,
+  'open-meteo': openMeteoProvider,
+  'mock': mockProvider,
+};
+
+// Create the configured provider; read on each request, like the upstream URLs.
+// Unknown names fall back to the backend with a warning.
+export const weatherProvider = (): WeatherProvider => {
+  const name = process.env.WEATHER_PROVIDER?.trim().toLowerCase() || 'backend';
+  const create = PROVIDERS[name];
+  if (!create) {
+    console.warn(`Unknown WEATHER_PROVIDER "${name}"; using the weather backend`);
+    return backendProvider();
+  }
+  return create();
+};
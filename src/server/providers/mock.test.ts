@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { validateNominatimPlace, validateWeatherForecast } from '../../utils/validation';
+import { UpstreamError } from '../proxy';
+import { mockProvider } from './mock';
+
+describe('mockProvider', () => {
+  const provider = mockProvider();
+
+  it('serves forecasts the client accepts, starting with the slot in progress', async () => {
+    const forecast = validateWeatherForecast(await provider.forecastByCity('Nairobi, KE', { units: 'metric' }));
+    const first = forecast.daily_forecasts[0].hourly_forecasts[0];
+    const nowSeconds = Date.now() / 1000;
+
+    expect(forecast.city_info).toEqual(expect.objectContaining({ name: 'Nairobi', country: 'KE' }));
+    expect(first.dt).toBeLessThanOrEqual(nowSeconds);
+    expect(first.dt + 3 * 3600).toBeGreaterThan(nowSeconds);
+  });
+
+  it('converts to imperial units', async () => {
+    const metric = await provider.forecastByCoords(-1.28, 36.82, { units: 'metric' });
+    const imperial = validateWeatherForecast(await provider.forecastByCoords(-1.28, 36.82, { units: 'imperial' }));
+    const celsius = metric.daily_forecasts[0].hourly_forecasts[0].main.temp;
+
+    expect(imperial.daily_forecasts[0].hourly_forecasts[0].main.temp).toBeCloseTo(celsius * 9 / 5 + 32);
+  });
+
+  it('names the nearest fixture place for coordinates', async () => {
+    expect(validateNominatimPlace(await provider.reverseGeocode(-4.05, 39.66, {})).address.city).toBe('Mombasa');
+  });
+
+  it('answers unknown cities with a 404', async () => {
+    const request = provider.forecastByCity('Atlantis', { units: 'metric' });
+    await expect(request).rejects.toBeInstanceOf(UpstreamError);
+    await expect(request).rejects.toMatchObject({ status: 404 });
+  });
+});
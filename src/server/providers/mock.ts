@@ -0,0 +1,89 @@
+// server/providers/mock.ts
+// Serves recorded fixtures instead of calling any upstream, for offline development and
+// deterministic tests. Every known place gets the same recorded Nairobi forecast, moved
+// forward by whole days so it starts at the current time of day.
+import type { HourlyForecast, NominatimResponse, WeatherForecast } from '../../utils/weather';
+import { validateNominatimPlaces, validateWeatherForecast } from '../../utils/validation';
+import { UpstreamError } from '../proxy';
+import { formatDtText, groupIntoDays } from './daily';
+import type { Units, WeatherProvider } from './types';
+import recordedForecast from './fixtures/forecast-nairobi.json';
+import recordedPlaces from './fixtures/places.json';
+
+const DAY_SECONDS = 24 * 60 * 60;
+const SLOT_SECONDS = 3 * 60 * 60;
+
+// Validating the fixtures also gives them their types
+const FORECAST = validateWeatherForecast(recordedForecast);
+const PLACES = validateNominatimPlaces(recordedPlaces);
+
+const placeName = (place: NominatimResponse) => place.address.city || place.address.town || place.display_name.split(',')[0];
+
+// The fixture place nearest a coordinate (flat-earth distance is plenty at this scale)
+const nearestPlace = (lat: number, lon: number): NominatimResponse => {
+  const distance = (place: NominatimResponse) => Math.hypot(parseFloat(place.lat) - lat, parseFloat(place.lon) - lon);
+  return PLACES.reduce((nearest, place) => (distance(place) < distance(nearest) ? place : nearest));
+};
+
+// The recorded slots shifted forward by whole days, starting with the one in progress
+const currentSlots = (nowSeconds: number): { slots: HourlyForecast[]; shift: number } => {
+  const recorded = FORECAST.daily_forecasts.flatMap((day) => day.hourly_forecasts);
+  const shift = Math.max(0, Math.floor((nowSeconds - recorded[0].dt) / DAY_SECONDS)) * DAY_SECONDS;
+  const slots = recorded
+    .map((slot) => ({ ...slot, dt: slot.dt + shift, dt_txt: formatDtText(slot.dt + shift) }))
+    .filter((slot) => slot.dt + SLOT_SECONDS > nowSeconds);
+  return { slots, shift };
+};
+
+// Convert a metric slot for an imperial request (°F, mph), as the backend would
+const toImperial = (slot: HourlyForecast): HourlyForecast => {
+  const fahrenheit = (celsius: number) => celsius * 9 / 5 + 32;
+  const mph = (metresPerSecond: number) => metresPerSecond * 2.23694;
+  return {
+    ...slot,
+    main: {
+      ...slot.main,
+      temp: fahrenheit(slot.main.temp),
+      feels_like: fahrenheit(slot.main.feels_like),
+      temp_min: fahrenheit(slot.main.temp_min),
+      temp_max: fahrenheit(slot.main.temp_max),
+    },
+    wind: { ...slot.wind, speed: mph(slot.wind.speed), gust: mph(slot.wind.gust) },
+  };
+};
+
+// The recorded forecast as of now, labelled with a fixture place and the requested point
+const forecastFor = (place: NominatimResponse, lat: number, lon: number, units: Units): WeatherForecast => {
+  const { slots, shift } = currentSlots(Date.now() / 1000);
+  const { city } = FORECAST;
+  const name = placeName(place);
+
+  return {
+    city: { ...city, name, coord: { lat, lon }, sunrise: city.sunrise + shift, sunset: city.sunset + shift },
+    daily_forecasts: groupIntoDays(units === 'imperial' ? slots.map(toImperial) : slots, city.timezone),
+    city_info: { name, country: place.address.country_code.toUpperCase(), lat, lon },
+  };
+};
+
+export const mockProvider = (): WeatherProvider => ({
+  id: 'mock',
+
+  forecastByCity: async (city, { units }) => {
+    // Like the backend, accept "Nairobi" as well as "Nairobi, KE"
+    const wanted = city.split(',')[0].trim().toLowerCase();
+    const place = PLACES.find((candidate) => placeName(candidate).toLowerCase() === wanted);
+    if (!place) {
+      throw new UpstreamError(404, { error: `City "${city}" not found` });
+    }
+    return forecastFor(place, parseFloat(place.lat), parseFloat(place.lon), units);
+  },
+
+  forecastByCoords: async (lat, lon, { units }) => forecastFor(nearestPlace(lat, lon), lat, lon, units),
+
+  searchPlaces: async (query, { limit }) => {
+    const wanted = query.trim().toLowerCase();
+    return PLACES.filter((place) => place.display_name.toLowerCase().includes(wanted)).slice(0, limit);
+  },
+
+  reverseGeocode: async (lat, lon) => nearestPlace(lat, lon),
+});
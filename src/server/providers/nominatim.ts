@@ -0,0 +1,40 @@
+// server/providers/nominatim.ts
+// Geocoding through Nominatim, shared by the providers that don't have their own
+import type { NominatimResponse } from '../../utils/weather';
+import { fetchUpstream } from '../proxy';
+import { nominatimUpstream } from '../upstreams';
+import type { WeatherProvider } from './types';
+
+export const nominatimGeocoder = (): Pick<WeatherProvider, 'searchPlaces' | 'reverseGeocode'> => {
+  const upstream = nominatimUpstream();
+
+  return {
+    searchPlaces: async (query, { limit, lang }) => {
+      const data = await fetchUpstream(upstream, '/search', {
+        q: query,
+        format: 'json',
+        addressdetails: 1,
+        limit,
+        featuretype: 'settlement',  // Prefer cities, towns and villages over streets/POIs
+        ...(lang && { 'accept-language': lang })  // Place names in the UI language
+      });
+      // Passed through as-is; the client validates it
+      return data as NominatimResponse[];
+    },
+
+    reverseGeocode: async (lat, lon, { lang }) => {
+      const data = await fetchUpstream(upstream, '/reverse', {
+        lat: lat.toFixed(3),
+        lon: lon.toFixed(3),
+        format: 'json',
+        zoom: 10,  // Zoom level for city/town detail
+        addressdetails: 1,
+        ...(lang && { 'accept-language': lang })
+      });
+      return data as NominatimResponse;
+    },
+  };
+};
+
+// Base URL of the configured Nominatim instance, for provider ids
+export const nominatimScope = (): string => nominatimUpstream().defaults.baseURL ?? '';
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import response from './fixtures/open-meteo-nairobi.json';
+import { validateWeatherForecast } from '../../utils/validation';
+import { UpstreamError } from '../proxy';
+import { toWeatherForecast } from './openMeteo';
+
+// The fixture is a /v1/forecast response (timeformat=unixtime, timezone=auto, forecast_days=2)
+// for Nairobi (UTC+3), covering 10 and 11 March 2025 from local midnight
+const PLACE = { name: 'Nairobi', country: 'Kenya', lat: -1.2833, lon: 36.8167 };
+const START = response.hourly.time[0]; // 2025-03-09 21:00 UTC
+
+const mapped = (nowSeconds = START) => toWeatherForecast(response, PLACE, 'KE', nowSeconds);
+const slots = (nowSeconds?: number) => mapped(nowSeconds).daily_forecasts.flatMap((day) => day.hourly_forecasts);
+const slotAt = (dtTxt: string) => {
+  const slot = slots().find((candidate) => candidate.dt_txt === dtTxt);
+  if (!slot) throw new Error(`no slot at ${dtTxt}`);
+  return slot;
+};
+
+describe('toWeatherForecast', () => {
+  it('picks the 3-hourly slots on OpenWeather’s UTC hours', () => {
+    const dts = slots().map((slot) => slot.dt);
+    expect(dts).toHaveLength(16);
+    expect(dts[0]).toBe(START);
+    expect(dts.every((dt, index) => dt === START + index * 3 * 3600)).toBe(true);
+  });
+
+  it('starts with the slot in progress', () => {
+    // 13:30 UTC: the 12:00 slot runs until 15:00
+    expect(slots(Date.UTC(2025, 2, 10, 13, 30) / 1000)[0].dt_txt).toBe('2025-03-10 12:00:00');
+    expect(slots(Date.UTC(2025, 2, 10, 15) / 1000)[0].dt_txt).toBe('2025-03-10 15:00:00');
+  });
+
+  it('maps a slot’s readings, ranges and chances over its 3 hours', () => {
+    const slot = slotAt('2025-03-10 12:00:00');
+    expect(slot.main).toEqual({
+      temp: 26,
+      feels_like: 25.2,
+      temp_min: 25.2,
+      temp_max: 26,
+      pressure: 1013.5,
+      sea_level: 1013.5,
+      grnd_level: 838.9,
+      humidity: 49,
+      temp_kf: 0,
+    });
+    expect(slot.wind).toEqual({ speed: 4.42, deg: 165, gust: 8.4 });
+    expect(slot.clouds).toEqual({ all: 100 });
+    expect(slot.pop).toBe(0.8);
+    expect(slot.visibility).toBe(10000);
+  });
+
+  it('totals the rain of the 3 hours up to each slot', () => {
+    expect(slotAt('2025-03-10 12:00:00').rain).toEqual({ '3h': 3.6 });
+    expect(slotAt('2025-03-10 15:00:00').rain).toEqual({ '3h': 0.9 });
+    expect(slotAt('2025-03-09 21:00:00')).not.toHaveProperty('rain');
+  });
+
+  it('translates WMO weather codes into OpenWeather conditions and icons', () => {
+    const condition = (dtTxt: string) => slotAt(dtTxt).weather[0];
+    expect(condition('2025-03-09 21:00:00')).toEqual({ id: 800, main: 'Clear', description: 'clear sky', icon: '01n' });
+    expect(condition('2025-03-10 12:00:00')).toEqual({ id: 211, main: 'Thunderstorm', description: 'thunderstorm', icon: '11d' });
+    expect(condition('2025-03-10 15:00:00')).toEqual({ id: 500, main: 'Rain', description: 'light rain', icon: '10d' });
+    expect(condition('2025-03-10 21:00:00')).toEqual({ id: 741, main: 'Fog', description: 'fog', icon: '50n' });
+    expect(condition('2025-03-11 09:00:00')).toEqual({ id: 301, main: 'Drizzle', description: 'drizzle', icon: '09d' });
+    expect(slotAt('2025-03-10 12:00:00').sys.pod).toBe('d');
+  });
+
+  it('fills missing readings from their fallbacks', () => {
+    // The fixture has no gust at 06:00 UTC on the 10th, nor visibility in the fog at 00:00 on the 11th
+    const gustless = slotAt('2025-03-10 06:00:00');
+    expect(gustless.wind.gust).toBe(gustless.wind.speed);
+    expect(slotAt('2025-03-11 00:00:00').visibility).toBe(10000);
+    expect(slotAt('2025-03-11 03:00:00').visibility).toBe(800);
+  });
+
+  it('groups slots into local calendar days', () => {
+    const days = mapped().daily_forecasts;
+    expect(days.map((day) => [day.date, day.day_of_week, day.hourly_forecasts.length])).toEqual([
+      ['2025-03-10', 'Monday', 8],
+      ['2025-03-11', 'Tuesday', 8],
+    ]);
+    // Represented by the local midday slot (09:00 UTC)
+    expect(days[0].weather_description).toBe('scattered clouds');
+    expect(days[0].weather_icon).toBe('03d');
+    expect(days[0].max_temp).toBe(26);
+  });
+
+  it('describes the city with the location’s UTC offset and first sunrise', () => {
+    const forecast = mapped();
+    expect(forecast.city).toEqual({
+      id: 0,
+      name: 'Nairobi',
+      coord: { lat: -1.25, lon: 36.75 },
+      country: 'KE',
+      population: 0,
+      timezone: 10800,
+      sunrise: response.daily.sunrise[0],
+      sunset: response.daily.sunset[0],
+    });
+    expect(forecast.city_info).toEqual(PLACE);
+  });
+
+  it('produces a forecast the client accepts', () => {
+    expect(() => validateWeatherForecast(mapped())).not.toThrow();
+  });
+
+  it('rejects a response without its series', () => {
+    expect(() => toWeatherForecast({ ...response, hourly: undefined } as never, PLACE, 'KE', START)).toThrow(UpstreamError);
+  });
+});
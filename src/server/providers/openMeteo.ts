@@ -0,0 +1,233 @@
+// server/providers/openMeteo.ts
+// Open-Meteo (https://open-meteo.com): free, keyless forecasts. Its hourly series are mapped
+// onto OpenWeather-style 3-hourly slots so the rest of the app sees the backend's shape.
+// Open-Meteo has no geocoding by coordinates, so place names come from Nominatim.
+import type { City, CityInfo, HourlyForecast, NominatimResponse, WeatherForecast } from '../../utils/weather';
+import { UpstreamError, fetchUpstream } from '../proxy';
+import { openMeteoUpstream } from '../upstreams';
+import { formatDtText, groupIntoDays } from './daily';
+import { nominatimGeocoder, nominatimScope } from './nominatim';
+import type { ForecastOptions, Units, WeatherProvider } from './types';
+
+// Hourly variables requested, in the order they're read below
+const HOURLY_VARIABLES = [
+  'temperature_2m',
+  'apparent_temperature',
+  'relative_humidity_2m',
+  'pressure_msl',
+  'surface_pressure',
+  'cloud_cover',
+  'visibility',
+  'wind_speed_10m',
+  'wind_direction_10m',
+  'wind_gusts_10m',
+  'precipitation_probability',
+  'rain',
+  'weather_code',
+  'is_day',
+] as const;
+
+type HourlyVariable = typeof HOURLY_VARIABLES[number];
+
+// Interface for the parts of an Open-Meteo /v1/forecast response we use (timeformat=unixtime)
+interface OpenMeteoForecast {
+  latitude: number;
+  longitude: number;
+  utc_offset_seconds: number;
+  hourly: { time: number[] } & Record<HourlyVariable, (number | null)[]>;
+  daily: { time: number[]; sunrise: number[]; sunset: number[] };
+}
+
+// OpenWeather's 5-day forecast: 40 slots, 3 hours apart
+const SLOT_HOURS = 3;
+const MAX_SLOTS = 40;
+// The slots plus the day still in progress
+const FORECAST_DAYS = 6;
+
+// Interface for an OpenWeather condition
+interface Condition {
+  id: number;
+  main: string;
+  description: string;
+  icon: string; // Without the "d"/"n" suffix
+}
+
+// WMO weather interpretation codes (Open-Meteo's weather_code) as OpenWeather conditions
+const CONDITIONS: Record<number, Condition> = {
+  0: { id: 800, main: 'Clear', description: 'clear sky', icon: '01' },
+  1: { id: 801, main: 'Clouds', description: 'few clouds', icon: '02' },
+  2: { id: 802, main: 'Clouds', description: 'scattered clouds', icon: '03' },
+  3: { id: 804, main: 'Clouds', description: 'overcast clouds', icon: '04' },
+  45: { id: 741, main: 'Fog', description: 'fog', icon: '50' },
+  48: { id: 741, main: 'Fog', description: 'fog', icon: '50' },
+  51: { id: 300, main: 'Drizzle', description: 'light intensity drizzle', icon: '09' },
+  53: { id: 301, main: 'Drizzle', description: 'drizzle', icon: '09' },
+  55: { id: 302, main: 'Drizzle', description: 'heavy intensity drizzle', icon: '09' },
+  56: { id: 511, main: 'Rain', description: 'freezing rain', icon: '13' },
+  57: { id: 511, main: 'Rain', description: 'freezing rain', icon: '13' },
+  61: { id: 500, main: 'Rain', description: 'light rain', icon: '10' },
+  63: { id: 501, main: 'Rain', description: 'moderate rain', icon: '10' },
+  65: { id: 502, main: 'Rain', description: 'heavy intensity rain', icon: '10' },
+  66: { id: 511, main: 'Rain', description: 'freezing rain', icon: '13' },
+  67: { id: 511, main: 'Rain', description: 'freezing rain', icon: '13' },
+  71: { id: 600, main: 'Snow', description: 'light snow', icon: '13' },
+  73: { id: 601, main: 'Snow', description: 'snow', icon: '13' },
+  75: { id: 602, main: 'Snow', description: 'heavy snow', icon: '13' },
+  77: { id: 600, main: 'Snow', description: 'light snow', icon: '13' },
+  80: { id: 520, main: 'Rain', description: 'light intensity shower rain', icon: '09' },
+  81: { id: 521, main: 'Rain', description: 'shower rain', icon: '09' },
+  82: { id: 522, main: 'Rain', description: 'heavy intensity shower rain', icon: '09' },
+  85: { id: 620, main: 'Snow', description: 'light shower snow', icon: '13' },
+  86: { id: 621, main: 'Snow', description: 'shower snow', icon: '13' },
+  95: { id: 211, main: 'Thunderstorm', description: 'thunderstorm', icon: '11' },
+  96: { id: 201, main: 'Thunderstorm', description: 'thunderstorm with rain', icon: '11' },
+  99: { id: 202, main: 'Thunderstorm', description: 'thunderstorm with heavy rain', icon: '11' },
+};
+
+// Readers for the hourly series; missing values (null) read as `fallback`
+const seriesReader = (hourly: OpenMeteoForecast['hourly']) => {
+  const at = (variable: HourlyVariable, index: number, fallback = 0): number => {
+    const value = hourly[variable]?.[index];
+    return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+  };
+  // Values over the hours from `start` to `end` inclusive (clipped to the series)
+  const over = (variable: HourlyVariable, start: number, end: number): number[] => {
+    const values: number[] = [];
+    for (let index = Math.max(0, start); index <= Math.min(end, hourly.time.length - 1); index++) {
+      values.push(at(variable, index));
+    }
+    return values;
+  };
+  return { at, over };
+};
+
+// The 3-hourly slot starting at hourly index `index`
+const toSlot = (forecast: OpenMeteoForecast, index: number): HourlyForecast => {
+  const { at, over } = seriesReader(forecast.hourly);
+  const dt = forecast.hourly.time[index];
+  const temps = over('temperature_2m', index, index + SLOT_HOURS - 1);
+  const isDay = at('is_day', index, 1) === 1;
+  const condition = CONDITIONS[at('weather_code', index)] ?? CONDITIONS[0];
+  // OpenWeather reports the rain that fell in the 3 hours up to the slot
+  const rain = over('rain', index - SLOT_HOURS + 1, index).reduce((total, value) => total + value, 0);
+  const speed = at('wind_speed_10m', index);
+
+  return {
+    dt,
+    main: {
+      temp: at('temperature_2m', index),
+      feels_like: at('apparent_temperature', index, at('temperature_2m', index)),
+      temp_min: Math.min(...temps),
+      temp_max: Math.max(...temps),
+      pressure: at('pressure_msl', index),
+      sea_level: at('pressure_msl', index),
+      grnd_level: at('surface_pressure', index, at('pressure_msl', index)),
+      humidity: at('relative_humidity_2m', index),
+      temp_kf: 0,
+    },
+    weather: [{
+      id: condition.id,
+      main: condition.main,
+      description: condition.description,
+      icon: `${condition.icon}${isDay ? 'd' : 'n'}`,
+    }],
+    clouds: { all: at('cloud_cover', index) },
+    wind: {
+      speed,
+      deg: at('wind_direction_10m', index),
+      gust: at('wind_gusts_10m', index, speed),
+    },
+    // OpenWeather caps visibility at 10km
+    visibility: Math.min(10000, at('visibility', index, 10000)),
+    pop: Math.max(0, ...over('precipitation_probability', index, index + SLOT_HOURS - 1)) / 100,
+    ...(rain > 0 ? { rain: { '3h': Math.round(rain * 100) / 100 } } : {}),
+    sys: { pod: isDay ? 'd' : 'n' },
+    dt_txt: formatDtText(dt),
+  };
+};
+
+// Map an Open-Meteo forecast onto the backend's shape. Slots fall on the same UTC hours as
+// OpenWeather's (00:00, 03:00, ...), starting with the one in progress.
+export const toWeatherForecast = (forecast: OpenMeteoForecast, place: CityInfo, countryCode: string, nowSeconds: number): WeatherForecast => {
+  if (!Array.isArray(forecast.hourly?.time) || !Array.isArray(forecast.daily?.sunrise)) {
+    throw new UpstreamError(502, { error: 'Open-Meteo response is missing its hourly or daily series' });
+  }
+
+  const slots = forecast.hourly.time
+    .map((dt, index) => ({ dt, index }))
+    .filter(({ dt }) => new Date(dt * 1000).getUTCHours() % SLOT_HOURS === 0 && dt + SLOT_HOURS * 3600 > nowSeconds)
+    .slice(0, MAX_SLOTS)
+    .map(({ index }) => toSlot(forecast, index));
+
+  const city: City = {
+    id: 0,
+    name: place.name,
+    coord: { lat: forecast.latitude, lon: forecast.longitude },
+    country: countryCode,
+    population: 0,
+    timezone: forecast.utc_offset_seconds,
+    sunrise: forecast.daily.sunrise[0],
+    sunset: forecast.daily.sunset[0],
+  };
+
+  return {
+    city,
+    daily_forecasts: groupIntoDays(slots, forecast.utc_offset_seconds),
+    city_info: place,
+  };
+};
+
+// Query parameters for a forecast in the requested units (precipitation stays in mm, as with OpenWeather)
+const forecastParams = (lat: number, lon: number, units: Units) => ({
+  latitude: lat.toFixed(3),
+  longitude: lon.toFixed(3),
+  hourly: HOURLY_VARIABLES.join(','),
+  daily: 'sunrise,sunset',
+  timezone: 'auto',
+  timeformat: 'unixtime',
+  forecast_days: FORECAST_DAYS,
+  temperature_unit: units === 'imperial' ? 'fahrenheit' : 'celsius',
+  wind_speed_unit: units === 'imperial' ? 'mph' : 'ms',
+});
+
+// Name, country and coordinates of a Nominatim place
+const placeInfo = (place: NominatimResponse): { info: CityInfo; countryCode: string } => ({
+  info: {
+    name: place.address?.city || place.address?.town || place.address?.village || place.address?.county
+      || place.display_name.split(',')[0],
+    country: place.address?.country ?? '',
+    ...(place.address?.state ? { state: place.address.state } : {}),
+    lat: parseFloat(place.lat),
+    lon: parseFloat(place.lon),
+  },
+  countryCode: (place.address?.country_code ?? '').toUpperCase(),
+});
+
+export const openMeteoProvider = (): WeatherProvider => {
+  const upstream = openMeteoUpstream();
+  const geocoder = nominatimGeocoder();
+
+  const fetchForecast = async (lat: number, lon: number, { units }: ForecastOptions, place?: ReturnType<typeof placeInfo>) => {
+    const data = await fetchUpstream(upstream, '/v1/forecast', forecastParams(lat, lon, units));
+    // Without a geocoded place the client names the location itself (see WeatherService.getForecastByCoords)
+    const { info, countryCode } = place ?? { info: { name: `${lat.toFixed(2)}, ${lon.toFixed(2)}`, country: '', lat, lon }, countryCode: '' };
+    return toWeatherForecast(data as OpenMeteoForecast, info, countryCode, Date.now() / 1000);
+  };
+
+  return {
+    id: `open-meteo:${upstream.defaults.baseURL}|${nominatimScope()}`,
+
+    forecastByCity: async (city, options) => {
+      const [place] = await geocoder.searchPlaces(city, { limit: 1, lang: options.lang });
+      if (!place) {
+        throw new UpstreamError(404, { error: `City "${city}" not found` });
+      }
+      const resolved = placeInfo(place);
+      return fetchForecast(resolved.info.lat, resolved.info.lon, options, resolved);
+    },
+
+    forecastByCoords: (lat, lon, options) => fetchForecast(lat, lon, options),
+
+    ...geocoder,
+  };
+};
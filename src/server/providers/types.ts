@@ -0,0 +1,32 @@
+// server/providers/types.ts
+import type { NominatimResponse, WeatherForecast } from '../../utils/weather';
+
+export type Units = 'metric' | 'imperial';
+
+// Interface for options every provider call accepts
+export interface ProviderOptions {
+  lang?: string; // Language for descriptions and place names, where the source supports it
+}
+
+// Interface for forecast request options
+export interface ForecastOptions extends ProviderOptions {
+  units: Units;
+}
+
+// Interface for forward geocoding options
+export interface SearchOptions extends ProviderOptions {
+  limit: number;
+}
+
+// A source of forecasts and place names for the API routes. Forecasts come back in the
+// backend's WeatherForecast shape and places in Nominatim's, which is what the client
+// validates (utils/validation.ts), so the browser can't tell providers apart.
+// Failures the client should see as statuses (e.g. a 404 for an unknown city) are thrown
+// as UpstreamErrors (see server/proxy.ts).
+export interface WeatherProvider {
+  id: string; // Identifies the provider and its configuration in cache keys
+  forecastByCity(city: string, options: ForecastOptions): Promise<WeatherForecast>;
+  forecastByCoords(lat: number, lon: number, options: ForecastOptions): Promise<WeatherForecast>;
+  searchPlaces(query: string, options: SearchOptions): Promise<NominatimResponse[]>;
+  reverseGeocode(lat: number, lon: number, options: ProviderOptions): Promise<NominatimResponse>;
+}
@@ -0,0 +1,111 @@
+// server/proxy.ts
+import { NextResponse } from 'next/server';
+import axios, { AxiosInstance } from 'axios';
+import { cached } from './cache';
+import { checkRateLimit, clientIp } from './rateLimit';
+
+// Interface for a proxied upstream call
+interface ProxyOptions {
+  upstream: AxiosInstance;
+  path: string;
+  params: Record<string, string | number>;
+  ttl: number; // Milliseconds to cache successful responses
+}
+
+// Interface for a response computed on the server (e.g. by a weather provider)
+interface ServeOptions {
+  key: string; // Cache key; see cacheKey
+  ttl: number; // Milliseconds to cache successful responses
+  load: () => Promise<unknown>;
+}
+
+// Error carrying an upstream status and body back to the client unchanged
+export class UpstreamError extends Error {
+  constructor(readonly status: number, readonly body: unknown, readonly retryAfter?: string) {
+    super(`Upstream responded with ${status}`);
+  }
+}
+
+// Error for a caller that is over its rate limit
+export class RateLimitError extends Error {
+  constructor(readonly retryAfter: number) {
+    super('Too many requests');
+  }
+}
+
+// Build a cache key that doesn't depend on parameter order. `scope` identifies the upstream
+// (its base URL, or a provider id) so changing configuration never serves stale entries.
+export const cacheKey = (scope: string | undefined, path: string, params: Record<string, string | number>) => {
+  const query = Object.keys(params).sort().map((key) => `${key}=${params[key]}`).join('&');
+  return `${scope ?? ''}${path}?${query}`;
+};
+
+// GET `path` from an upstream, turning error responses into UpstreamErrors
+export const fetchUpstream = async (upstream: AxiosInstance, path: string, params: Record<string, string | number>): Promise<unknown> => {
+  try {
+    const response = await upstream.get(path, { params });
+    return response.data as unknown;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      throw new UpstreamError(error.response.status, error.response.data, error.response.headers['retry-after']);
+    }
+    throw error;
+  }
+};
+
+// Get `load()` through the shared cache on behalf of a client (see clientIp), counting the call
+// against its rate limit. Everything that can reach an upstream for a caller goes through
+// here: the API routes and the server-rendered pages and images alike. Throws a
+// RateLimitError when the client is over its limit.
+export const cachedForClient = async <T>(client: string, key: string, ttl: number, load: () => Promise<T>): Promise<T> => {
+  const limit = checkRateLimit(client);
+  if (!limit.allowed) {
+    throw new RateLimitError(limit.retryAfter);
+  }
+  return cached(key, ttl, load);
+};
+
+// Rate-limit the caller, then respond with `load()` through the shared cache.
+// UpstreamErrors (404, 429, 5xx) are passed through so the client can classify them.
+export const serveCached = async (request: Request, { key, ttl, load }: ServeOptions) => {
+  try {
+    return NextResponse.json(await cachedForClient(clientIp(request.headers), key, ttl, load));
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfter) } }
+      );
+    }
+    if (error instanceof UpstreamError) {
+      return NextResponse.json(
+        error.body ?? { error: error.message },
+        { status: error.status, headers: error.retryAfter ? { 'Retry-After': error.retryAfter } : undefined }
+      );
+    }
+    const timedOut = axios.isAxiosError(error) && (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT');
+    console.error(`Error serving ${new URL(request.url).pathname}:`, error);
+    return NextResponse.json(
+      { error: timedOut ? 'Upstream timed out' : 'Upstream unavailable' },
+      { status: timedOut ? 504 : 502 }
+    );
+  }
+};
+
+// Fetch `path` from the upstream for the caller, through the rate limit and shared cache
+export const proxyRequest = (request: Request, { upstream, path, params, ttl }: ProxyOptions) => {
+  return serveCached(request, {
+    key: cacheKey(upstream.defaults.baseURL, path, params),
+    ttl,
+    load: () => fetchUpstream(upstream, path, params)
+  });
+};
+
+// Respond with a 400 for a missing or malformed query parameter
+export const badRequest = (message: string) => NextResponse.json({ error: message }, { status: 400 });
+
+// Read an optional `lang` parameter ("fr", "pt-BR"); anything that isn't a language tag is ignored
+export const languageParam = (searchParams: URLSearchParams): string | undefined => {
+  const lang = searchParams.get('lang')?.trim();
+  return lang && /^[a-z]{2,3}(-[a-z0-9]{2,8})?$/i.test(lang) ? lang.toLowerCase() : undefined;
+};
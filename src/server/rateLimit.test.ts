@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { clientIp } from './rateLimit';
+
+// Headers of a request that came through the proxies
+const request = (headers: Record<string, string>) => new Headers(headers);
+
+describe('clientIp', () => {
+  afterEach(() => {
+    delete process.env.TRUSTED_PROXY_HOPS;
+  });
+
+  it('takes the address the proxy in front of the app saw', () => {
+    expect(clientIp(request({ 'x-forwarded-for': '203.0.113.7' }))).toBe('203.0.113.7');
+  });
+
+  it('ignores addresses the client put in X-Forwarded-For itself', () => {
+    expect(clientIp(request({ 'x-forwarded-for': '10.9.9.9, 198.51.100.1, 203.0.113.7' }))).toBe('203.0.113.7');
+  });
+
+  it('counts TRUSTED_PROXY_HOPS proxies from the right', () => {
+    process.env.TRUSTED_PROXY_HOPS = '2';
+    expect(clientIp(request({ 'x-forwarded-for': '10.9.9.9, 203.0.113.7, 192.0.2.10' }))).toBe('203.0.113.7');
+    // Fewer entries than proxies: the request didn't pass through all of them
+    expect(clientIp(request({ 'x-forwarded-for': '203.0.113.7' }))).toBe('203.0.113.7');
+  });
+
+  it('ignores X-Real-IP, which the client could have set', () => {
+    expect(clientIp(request({ 'x-real-ip': '203.0.113.7' }))).toBe('unknown');
+    expect(clientIp(request({}))).toBe('unknown');
+  });
+
+  it('trusts no forwarding headers without proxies', () => {
+    process.env.TRUSTED_PROXY_HOPS = '0';
+    expect(clientIp(request({ 'x-forwarded-for': '203.0.113.7', 'x-real-ip': '203.0.113.7' }))).toBe('unknown');
+  });
+});
@@ -0,0 +1,69 @@
+// server/rateLimit.ts
+// Fixed-window, per-IP rate limiting for the API proxy routes.
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+// Interface for the outcome of a rate limit check
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfter: number; // Seconds until the current window resets
+}
+
+const WINDOW_MS = 60 * 1000;
+
+// Kept on globalThis so every route bundle counts against the same windows
+const store = globalThis as typeof globalThis & { __rateLimitWindows?: Map<string, Window> };
+store.__rateLimitWindows ??= new Map();
+const windows = store.__rateLimitWindows;
+
+// Requests allowed per client per minute (RATE_LIMIT_PER_MINUTE, default 60)
+const limitPerWindow = () => Number(process.env.RATE_LIMIT_PER_MINUTE) || 60;
+
+// Reverse proxies in front of the app that append to X-Forwarded-For (TRUSTED_PROXY_HOPS,
+// default 1); 0 when clients connect directly, so no forwarding header can be trusted and
+// every client counts against one shared limit
+const trustedProxyHops = () => {
+  const hops = parseInt(process.env.TRUSTED_PROXY_HOPS ?? '', 10);
+  return Number.isInteger(hops) && hops >= 0 ? hops : 1;
+};
+
+// Identify the client. Each proxy appends the address it got the request from to
+// X-Forwarded-For, so only the entries our own proxies added are trustworthy and anything
+// left of them may be forged: the client is the entry added by the outermost trusted proxy.
+// Other headers (X-Real-IP and the like) are ignored, as the client can set them too.
+export const clientIp = (headers: Headers): string => {
+  const hops = trustedProxyHops();
+  if (hops === 0) return 'unknown';
+
+  const forwarded = (headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+  return forwarded.length > 0 ? forwarded[Math.max(0, forwarded.length - hops)] : 'unknown';
+};
+
+// Count a request against the client's window
+export const checkRateLimit = (ip: string): RateLimitResult => {
+  const now = Date.now();
+  let window = windows.get(ip);
+
+  if (!window || window.resetAt <= now) {
+    window = { count: 0, resetAt: now + WINDOW_MS };
+    windows.set(ip, window);
+    // Opportunistically forget clients whose windows have expired
+    if (windows.size > 10000) {
+      windows.forEach((value, key) => {
+        if (value.resetAt <= now) windows.delete(key);
+      });
+    }
+  }
+
+  window.count++;
+  return {
+    allowed: window.count <= limitPerWindow(),
+    retryAfter: Math.ceil((window.resetAt - now) / 1000),
+  };
+};
@@ -0,0 +1,49 @@
+// server/upstreams.ts
+// Upstream services the API proxy routes talk to. URLs are read from the environment on each
+// request so tests can point them at a local stub server:
+//   WEATHER_PROVIDER      forecast source: "backend" (default), "open-meteo", or "mock" for
+//                         recorded fixtures with no network access (see server/providers)
+//   WEATHER_API_URL       weather backend (falls back to NEXT_PUBLIC_API_URL, then fly.dev)
+//   OPEN_METEO_URL        Open-Meteo forecast API
+//   NOMINATIM_URL         Nominatim instance (defaults to the public OpenStreetMap one)
+//   NOMINATIM_USER_AGENT  identifies this app to Nominatim, as its usage policy requires
+//   IP_LOCATION_URL       IP geolocation lookup, with "{ip}" standing for the client address
+import axios, { AxiosInstance } from 'axios';
+
+export const weatherUpstream = (): AxiosInstance => axios.create({
+  baseURL: process.env.WEATHER_API_URL || process.env.NEXT_PUBLIC_API_URL || 'https://weatherbackend.fly.dev',
+  timeout: 20000,
+  headers: {
+    'Accept': 'application/json',
+  }
+});
+
+export const openMeteoUpstream = (): AxiosInstance => axios.create({
+  baseURL: process.env.OPEN_METEO_URL || 'https://api.open-meteo.com',
+  timeout: 20000,
+  headers: {
+    'Accept': 'application/json',
+  }
+});
+
+export const nominatimUpstream = (): AxiosInstance => axios.create({
+  baseURL: process.env.NOMINATIM_URL || 'https://nominatim.openstreetmap.org',
+  timeout: 10000,
+  headers: {
+    'Accept': 'application/json',
+    'User-Agent': process.env.NOMINATIM_USER_AGENT || 'WeatherApp/1.0 (weatherapp-ui server proxy)'
+  }
+});
+
+export const ipLocationUpstream = (): AxiosInstance => axios.create({
+  timeout: 5000,
+  headers: {
+    'Accept': 'application/json',
+  }
+});
+
+// URL of the IP geolocation lookup for a client address (defaults to ipapi.co)
+export const ipLocationUrl = (ip: string): string => {
+  const template = process.env.IP_LOCATION_URL || 'https://ipapi.co/{ip}/json/';
+  return template.replace('{ip}', encodeURIComponent(ip));
+};
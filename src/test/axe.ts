@@ -0,0 +1,17 @@
+// test/axe.ts
+// Automated accessibility checks with axe-core for rendered components
+import axe from 'axe-core';
+
+// Rules that don't apply to a component rendered on its own in jsdom: landmarks only make
+// sense for a whole page, and jsdom doesn't compute colours
+const DISABLED_RULES = {
+  region: { enabled: false },
+  'color-contrast': { enabled: false },
+};
+
+// One line per violation, naming the rule and the offending elements, so a failing
+// expectation says what to fix
+export const axeViolations = async (container: Element): Promise<string[]> => {
+  const { violations } = await axe.run(container, { rules: DISABLED_RULES });
+  return violations.map((violation) => `${violation.id}: ${violation.nodes.map((node) => node.target.join(' ')).join(', ')}`);
+};
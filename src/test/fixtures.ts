@@ -0,0 +1,11 @@
+// test/fixtures.ts
+// Forecast and place data for tests, from the mock provider's fixtures
+import forecastJson from '../server/providers/fixtures/forecast-nairobi.json';
+import { validateWeatherForecast } from '../utils/validation';
+import type { CityInfo, WeatherForecast } from '../utils/weather';
+
+// A fresh copy of the Nairobi fixture forecast (10-15 March 2025, UTC+3)
+export const nairobiForecast = (): WeatherForecast => validateWeatherForecast(structuredClone(forecastJson));
+
+export const NAIROBI: CityInfo = { name: 'Nairobi', country: 'KE', lat: -1.2833, lon: 36.8167 };
+export const MOMBASA: CityInfo = { name: 'Mombasa', country: 'KE', state: 'Mombasa County', lat: -4.0435, lon: 39.6682 };
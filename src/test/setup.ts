@@ -0,0 +1,10 @@
+// test/setup.ts
+// Runs before every test file (see vitest.config.ts)
+import { afterEach } from 'vitest';
+
+// Unmount whatever component tests rendered, so each test starts from an empty document
+afterEach(async () => {
+  if (typeof document === 'undefined') return;
+  const { cleanup } = await import('@testing-library/react');
+  cleanup();
+});
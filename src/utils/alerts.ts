@@ -0,0 +1,120 @@
+// utils/alerts.ts
+// Threshold alert rules evaluated against forecast data. Thresholds are stored in the
+// canonical metric units the forecast is fetched in (°C, m/s, mm) so changing display
+// units never changes what a rule means.
+import type { DailyForecast, HourlyForecast, WeatherForecast } from './weather';
+import type { MessageKey } from './i18n';
+
+// Quantities a rule can watch
+export type AlertMetric = 'max_temp' | 'min_temp' | 'pop' | 'wind_gust' | 'rain';
+
+// Which forecast days a rule applies to
+export type AlertDay = 'today' | 'tomorrow' | 'any';
+
+// Interface for a user-defined threshold rule
+export interface AlertRule {
+  id: string;
+  locationKey: string; // favoriteKey() of the location
+  locationName: string;
+  lat: number;
+  lon: number;
+  metric: AlertMetric;
+  comparator: 'above' | 'below';
+  threshold: number; // °C for temperatures, m/s for gusts, mm for rain, 0-1 for pop
+  day: AlertDay;
+}
+
+// Interface for a rule that the forecast triggers
+export interface TriggeredAlert {
+  rule: AlertRule;
+  dt: number;    // Unix seconds of the first hourly slot that triggers the rule
+  value: number; // Forecast value at that slot, in canonical units
+}
+
+// Message keys labelling each metric and day option (see locales/en.ts)
+export const ALERT_METRIC_LABELS: Record<AlertMetric, MessageKey> = {
+  max_temp: 'alerts.metric.max_temp',
+  min_temp: 'alerts.metric.min_temp',
+  pop: 'alerts.metric.pop',
+  wind_gust: 'alerts.metric.wind_gust',
+  rain: 'alerts.metric.rain',
+};
+
+export const ALERT_DAY_LABELS: Record<AlertDay, MessageKey> = {
+  today: 'alerts.day.today',
+  tomorrow: 'alerts.day.tomorrow',
+  any: 'alerts.day.any',
+};
+
+// Read the watched value from an hourly slot
+const hourlyValue = (metric: AlertMetric, hour: HourlyForecast): number => {
+  switch (metric) {
+    case 'max_temp':
+      return hour.main.temp_max;
+    case 'min_temp':
+      return hour.main.temp_min;
+    case 'pop':
+      return hour.pop;
+    case 'wind_gust':
+      return hour.wind.gust;
+    case 'rain':
+      return hour.rain?.['3h'] ?? 0;
+  }
+};
+
+const crosses = (rule: AlertRule, value: number) => {
+  return rule.comparator === 'above' ? value > rule.threshold : value < rule.threshold;
+};
+
+// Days of the forecast a rule looks at
+const daysFor = (rule: AlertRule, forecast: WeatherForecast): DailyForecast[] => {
+  switch (rule.day) {
+    case 'today':
+      return forecast.daily_forecasts.slice(0, 1);
+    case 'tomorrow':
+      return forecast.daily_forecasts.slice(1, 2);
+    default:
+      return forecast.daily_forecasts;
+  }
+};
+
+// Find the first hourly slot at which a rule triggers, if any
+export const evaluateRule = (rule: AlertRule, forecast: WeatherForecast): TriggeredAlert | null => {
+  for (const day of daysFor(rule, forecast)) {
+    // Daily extremes are checked against the day aggregate first, so a rule like
+    // "max temp above 30" matches the backend's daily max even between slots
+    if ((rule.metric === 'max_temp' || rule.metric === 'min_temp') && !crosses(rule, day[rule.metric])) {
+      continue;
+    }
+
+    const hour = day.hourly_forecasts.find((slot) => crosses(rule, hourlyValue(rule.metric, slot)));
+    if (hour) {
+      return { rule, dt: hour.dt, value: hourlyValue(rule.metric, hour) };
+    }
+
+    if (rule.metric === 'max_temp' || rule.metric === 'min_temp') {
+      // The aggregate crossed but no single slot did; report the day's most extreme slot
+      const extreme = day.hourly_forecasts.reduce<HourlyForecast | null>((best, slot) => {
+        if (!best) return slot;
+        const value = hourlyValue(rule.metric, slot);
+        const bestValue = hourlyValue(rule.metric, best);
+        return rule.metric === 'max_temp' ? (value > bestValue ? slot : best) : (value < bestValue ? slot : best);
+      }, null);
+      if (extreme) {
+        return { rule, dt: extreme.dt, value: day[rule.metric] };
+      }
+    }
+  }
+  return null;
+};
+
+// Evaluate every rule for one location's forecast
+export const evaluateRules = (rules: AlertRule[], forecast: WeatherForecast): TriggeredAlert[] => {
+  return rules
+    .map((rule) => evaluateRule(rule, forecast))
+    .filter((alert): alert is TriggeredAlert => alert !== null)
+    .sort((a, b) => a.dt - b.dt);
+};
+
+// Key identifying one occurrence of a triggered rule, used to notify only once per occurrence
+export const triggeredAlertKey = (alert: TriggeredAlert) => `${alert.rule.id}@${alert.dt}`;
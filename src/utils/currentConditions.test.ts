@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { nairobiForecast } from '../test/fixtures';
+import { allSlots, currentConditions, findBracketingSlots } from './currentConditions';
+
+// Fixture slots are 3 hours apart from 09:00 UTC on 10 March 2025; the first local day ends
+// after the 18:00 UTC slot
+const at = (day: number, hour: number, minute = 0) => Date.UTC(2025, 2, day, hour, minute);
+const FIRST_SLOT = at(10, 9) / 1000;
+const LAST_SLOT = 1742018400; // 15 March, 06:00 UTC
+
+describe('allSlots', () => {
+  it('lists every slot in time order across days', () => {
+    const slots = allSlots(nairobiForecast());
+    expect(slots).toHaveLength(40);
+    expect(slots[0].dt).toBe(FIRST_SLOT);
+    expect(slots[slots.length - 1].dt).toBe(LAST_SLOT);
+    expect(slots.every((slot, index) => index === 0 || slot.dt - slots[index - 1].dt === 3 * 60 * 60)).toBe(true);
+  });
+});
+
+describe('findBracketingSlots', () => {
+  const slots = allSlots(nairobiForecast());
+
+  it('finds nothing in an empty forecast', () => {
+    expect(findBracketingSlots([], FIRST_SLOT)).toBeNull();
+  });
+
+  it('holds the first slot before the forecast starts', () => {
+    const bracket = findBracketingSlots(slots, FIRST_SLOT - 5 * 60 * 60);
+    expect(bracket).toEqual({ before: slots[0], after: slots[0], fraction: 0 });
+  });
+
+  it('holds the last slot after the forecast ends', () => {
+    const bracket = findBracketingSlots(slots, LAST_SLOT + 60 * 60);
+    expect(bracket).toEqual({ before: slots[39], after: slots[39], fraction: 0 });
+  });
+
+  it('starts a new bracket exactly on a slot', () => {
+    const bracket = findBracketingSlots(slots, at(10, 12) / 1000);
+    expect(bracket?.before).toBe(slots[1]);
+    expect(bracket?.after).toBe(slots[2]);
+    expect(bracket?.fraction).toBe(0);
+  });
+
+  it('measures how far between the slots an instant is', () => {
+    const bracket = findBracketingSlots(slots, at(10, 13) / 1000);
+    expect(bracket?.before.dt).toBe(at(10, 12) / 1000);
+    expect(bracket?.after.dt).toBe(at(10, 15) / 1000);
+    expect(bracket?.fraction).toBeCloseTo(1 / 3);
+  });
+
+  it('brackets across the boundary between local days', () => {
+    const forecast = nairobiForecast();
+    const bracket = findBracketingSlots(allSlots(forecast), at(10, 19, 30) / 1000);
+    expect(bracket?.before).toBe(forecast.daily_forecasts[0].hourly_forecasts[3]);
+    expect(bracket?.after).toBe(forecast.daily_forecasts[1].hourly_forecasts[0]);
+    expect(bracket?.fraction).toBe(0.5);
+  });
+});
+
+describe('currentConditions', () => {
+  it('has nothing to show without a forecast', () => {
+    expect(currentConditions(null, at(10, 9))).toBeUndefined();
+  });
+
+  it('returns the slot itself exactly on a slot', () => {
+    const forecast = nairobiForecast();
+    const slot = forecast.daily_forecasts[0].hourly_forecasts[1];
+    expect(currentConditions(forecast, at(10, 12))).toEqual(slot);
+  });
+
+  it('interpolates the continuous quantities in the morning', () => {
+    // 11 March, 07:00 UTC: a third of the way from the 06:00 slot (21.36°C) to the 09:00 slot (25.54°C)
+    const now = currentConditions(nairobiForecast(), at(11, 7));
+    expect(now?.dt).toBe(at(11, 7) / 1000);
+    expect(now?.main.temp).toBeCloseTo(21.36 + (25.54 - 21.36) / 3);
+    expect(now?.main.humidity).toBeCloseTo(58 + (47 - 58) / 3);
+    expect(now?.wind.speed).toBeCloseTo(2.96 + (4.52 - 2.96) / 3);
+  });
+
+  it('takes the categorical fields from the nearer slot', () => {
+    const forecast = nairobiForecast();
+    // 07:00 is nearer the clear 06:00 slot; 08:00 is nearer the rainy 09:00 one
+    const early = currentConditions(forecast, at(11, 7));
+    expect(early?.weather[0].description).toBe('clear sky');
+    expect(early?.pop).toBe(0);
+
+    const late = currentConditions(forecast, at(11, 8));
+    expect(late?.weather[0].description).toBe('light rain');
+    expect(late?.pop).toBe(0.79);
+    expect(late?.rain).toEqual(forecast.daily_forecasts[1].hourly_forecasts[4].rain);
+  });
+
+  it('switches to night halfway between a day and a night slot', () => {
+    const forecast = nairobiForecast();
+    expect(currentConditions(forecast, at(10, 13, 29))?.sys.pod).toBe('d');
+    expect(currentConditions(forecast, at(10, 13, 30))?.sys.pod).toBe('n');
+  });
+
+  it('interpolates across the boundary between local days', () => {
+    // Halfway from the first day's last slot (18.57°C) to the next day's first (14.1°C)
+    const now = currentConditions(nairobiForecast(), at(10, 19, 30));
+    expect(now?.main.temp).toBeCloseTo((18.57 + 14.1) / 2);
+    expect(now?.weather[0].icon).toBe('03n');
+  });
+
+  it('holds the edge slots outside the forecast', () => {
+    const forecast = nairobiForecast();
+    const slots = allSlots(forecast);
+    expect(currentConditions(forecast, at(9, 0))?.main).toEqual(slots[0].main);
+    expect(currentConditions(forecast, at(16, 0))?.main).toEqual(slots[39].main);
+  });
+
+  it('turns the wind the shorter way round through north', () => {
+    const forecast = nairobiForecast();
+    forecast.daily_forecasts[0].hourly_forecasts[0].wind.deg = 350;
+    forecast.daily_forecasts[0].hourly_forecasts[1].wind.deg = 10;
+
+    expect(currentConditions(forecast, at(10, 10, 30))?.wind.deg).toBeCloseTo(0);
+    expect(currentConditions(forecast, at(10, 9, 45))?.wind.deg).toBeCloseTo(355);
+    expect(currentConditions(forecast, at(10, 11, 15))?.wind.deg).toBeCloseTo(5);
+  });
+
+  it('turns the wind the shorter way round from east to west of north', () => {
+    const forecast = nairobiForecast();
+    forecast.daily_forecasts[0].hourly_forecasts[0].wind.deg = 10;
+    forecast.daily_forecasts[0].hourly_forecasts[1].wind.deg = 350;
+    expect(currentConditions(forecast, at(10, 10))?.wind.deg).toBeCloseTo(3.333);
+  });
+});
@@ -0,0 +1,80 @@
+// utils/currentConditions.ts
+// "Now" conditions from a 3-hourly forecast. Slots are matched on their UTC instants (dt), so
+// the location's timezone and the backend's grouping into local days don't affect which slots
+// bracket the current time; the continuous quantities are interpolated between them.
+import type { HourlyForecast, WeatherForecast } from './weather';
+
+// Interface for the slots around an instant; `fraction` is how far it is from `before` to `after`
+export interface BracketingSlots {
+  before: HourlyForecast;
+  after: HourlyForecast;
+  fraction: number; // 0 at before.dt, 1 at after.dt
+}
+
+// Every hourly slot in the forecast in time order, across day boundaries
+export const allSlots = (forecast: WeatherForecast): HourlyForecast[] => {
+  return forecast.daily_forecasts
+    .flatMap((day) => day.hourly_forecasts)
+    .sort((a, b) => a.dt - b.dt);
+};
+
+// The slots either side of `nowSeconds`. Before the first or after the last slot both sides
+// are that slot, so the edge values are held rather than extrapolated.
+export const findBracketingSlots = (slots: HourlyForecast[], nowSeconds: number): BracketingSlots | null => {
+  if (slots.length === 0) return null;
+
+  const nextIndex = slots.findIndex((slot) => slot.dt > nowSeconds);
+  if (nextIndex === 0) return { before: slots[0], after: slots[0], fraction: 0 };
+  if (nextIndex === -1) {
+    const last = slots[slots.length - 1];
+    return { before: last, after: last, fraction: 0 };
+  }
+
+  const before = slots[nextIndex - 1];
+  const after = slots[nextIndex];
+  return { before, after, fraction: (nowSeconds - before.dt) / (after.dt - before.dt) };
+};
+
+const lerp = (from: number, to: number, fraction: number) => from + (to - from) * fraction;
+
+// Interpolate a bearing along the shorter way round (350° → 10° passes through 0°, not 180°)
+const lerpAngle = (from: number, to: number, fraction: number) => {
+  const delta = ((to - from + 540) % 360) - 180;
+  return (from + delta * fraction + 360) % 360;
+};
+
+// Conditions at `nowMs` shaped as an hourly slot: temperature, humidity, pressure and wind are
+// interpolated, while the categorical fields (icon, description, part of day, precipitation)
+// come from whichever slot is nearer in time
+export const currentConditions = (forecast: WeatherForecast | null | undefined, nowMs: number): HourlyForecast | undefined => {
+  if (!forecast) return undefined;
+  const bracket = findBracketingSlots(allSlots(forecast), nowMs / 1000);
+  if (!bracket) return undefined;
+
+  const { before, after, fraction } = bracket;
+  const nearest = fraction < 0.5 ? before : after;
+  const mix = (pick: (slot: HourlyForecast) => number) => lerp(pick(before), pick(after), fraction);
+
+  return {
+    ...nearest,
+    dt: Math.round(nowMs / 1000),
+    main: {
+      ...nearest.main,
+      temp: mix((slot) => slot.main.temp),
+      feels_like: mix((slot) => slot.main.feels_like),
+      temp_min: mix((slot) => slot.main.temp_min),
+      temp_max: mix((slot) => slot.main.temp_max),
+      pressure: mix((slot) => slot.main.pressure),
+      sea_level: mix((slot) => slot.main.sea_level),
+      grnd_level: mix((slot) => slot.main.grnd_level),
+      humidity: mix((slot) => slot.main.humidity),
+    },
+    clouds: { all: mix((slot) => slot.clouds.all) },
+    wind: {
+      speed: mix((slot) => slot.wind.speed),
+      deg: lerpAngle(before.wind.deg, after.wind.deg, fraction),
+      gust: mix((slot) => slot.wind.gust),
+    },
+    visibility: mix((slot) => slot.visibility),
+  };
+};
@@ -0,0 +1,64 @@
+// utils/dailySummary.ts
+import type { DailyForecast } from './weather';
+
+// Interface for min/avg/max of one quantity over a day
+export interface Range {
+  min: number;
+  avg: number;
+  max: number;
+}
+
+// Interface for a day's figures aggregated from its hourly slots
+export interface DaySummary {
+  temperature: Range;
+  feelsLike: Range;
+  pressure: Range;
+  seaLevel: number;    // Average, hPa
+  groundLevel: number; // Average, hPa
+  humidity: number;    // Average, %
+  cloudCover: number;  // Average, %
+  visibility: number;  // Minimum, metres
+  windSpeed: number;   // Maximum sustained, m/s
+  gust: number;        // Maximum, m/s
+  pop: number;         // Highest precipitation probability, 0-1
+  rainTotal: number;   // Sum of 3h rain volumes, mm
+}
+
+const rangeOf = (values: number[]): Range => {
+  const sum = values.reduce((total, value) => total + value, 0);
+  return {
+    min: Math.min(...values),
+    avg: sum / values.length,
+    max: Math.max(...values),
+  };
+};
+
+const average = (values: number[]) => values.reduce((total, value) => total + value, 0) / values.length;
+
+// Aggregate a day's hourly slots; null when the day has no hourly data
+export const summarizeDay = (day: DailyForecast): DaySummary | null => {
+  const hours = day.hourly_forecasts;
+  if (hours.length === 0) return null;
+
+  const temperature = rangeOf(hours.map((h) => h.main.temp));
+
+  return {
+    // Prefer the backend's daily extremes, which also account for temp_min/temp_max within slots
+    temperature: {
+      min: Math.min(day.min_temp, temperature.min),
+      avg: day.avg_temp,
+      max: Math.max(day.max_temp, temperature.max),
+    },
+    feelsLike: rangeOf(hours.map((h) => h.main.feels_like)),
+    pressure: rangeOf(hours.map((h) => h.main.pressure)),
+    seaLevel: average(hours.map((h) => h.main.sea_level)),
+    groundLevel: average(hours.map((h) => h.main.grnd_level)),
+    humidity: average(hours.map((h) => h.main.humidity)),
+    cloudCover: average(hours.map((h) => h.clouds.all)),
+    visibility: Math.min(...hours.map((h) => h.visibility)),
+    windSpeed: Math.max(...hours.map((h) => h.wind.speed)),
+    gust: Math.max(...hours.map((h) => h.wind.gust)),
+    pop: Math.max(...hours.map((h) => h.pop)),
+    rainTotal: hours.reduce((total, h) => total + (h.rain?.['3h'] ?? 0), 0),
+  };
+};
@@ -0,0 +1,43 @@
+// utils/database.ts
+// The app's IndexedDB database, shared by the forecast cache and the forecast history
+
+const DB_NAME = 'weatherapp';
+// Version 2 added the history store
+const DB_VERSION = 2;
+
+// Latest forecast per cache key (see utils/forecastCache.ts)
+export const FORECASTS_STORE = 'forecasts';
+// Every fetched forecast, keyed by [location, fetchedAt] (see utils/forecastHistory.ts)
+export const HISTORY_STORE = 'history';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Open (and create or upgrade if needed) the database; resolves to null where IndexedDB is unavailable
+export const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(FORECASTS_STORE)) {
+        db.createObjectStore(FORECASTS_STORE, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+        db.createObjectStore(HISTORY_STORE, { keyPath: ['location', 'fetchedAt'] });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error('Error opening database:', request.error);
+      resolve(null);
+    };
+  });
+
+  return dbPromise;
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { nairobiForecast } from '../test/fixtures';
+import { DEFAULT_UNIT_PREFERENCES } from './units';
+import { toCsv } from './export';
+
+// The CSV's lines, without the header and the trailing line break
+const csvRows = (csv: string) => csv.split('\r\n').slice(1, -1);
+
+describe('toCsv', () => {
+  it('writes one row per hourly slot under a header naming the units', () => {
+    const csv = toCsv(nairobiForecast(), DEFAULT_UNIT_PREFERENCES);
+    expect(csv.split('\r\n')[0]).toBe('time,temperature (°C),feels_like (°C),humidity (%),wind_speed (m/s),wind_gust (m/s),wind_direction (°),pop (%),rain (mm),description');
+    expect(csvRows(csv)).toHaveLength(40);
+  });
+
+  it('keeps text that a spreadsheet would run as a formula as text', () => {
+    const forecast = nairobiForecast();
+    const slots = forecast.daily_forecasts[0].hourly_forecasts;
+    slots[0].weather[0].description = '=HYPERLINK("https://example.com","rain")';
+    slots[1].weather[0].description = '@SUM(A1)';
+    slots[2].weather[0].description = '-2+3';
+
+    const [first, second, third] = csvRows(toCsv(forecast, DEFAULT_UNIT_PREFERENCES));
+    expect(first.endsWith(`,"'=HYPERLINK(""https://example.com"",""rain"")"`)).toBe(true);
+    expect(second.endsWith(",'@SUM(A1)")).toBe(true);
+    expect(third.endsWith(",'-2+3")).toBe(true);
+  });
+
+  it('leaves negative numbers as numbers', () => {
+    const forecast = nairobiForecast();
+    forecast.daily_forecasts[0].hourly_forecasts[0].main.temp = -4.5;
+
+    const [first] = csvRows(toCsv(forecast, DEFAULT_UNIT_PREFERENCES));
+    expect(first.split(',')[1]).toBe('-4.5');
+  });
+});
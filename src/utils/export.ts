@@ -0,0 +1,253 @@
+// utils/export.ts
+// Client-side export of a forecast for spreadsheets and calendars. Hourly rows go to CSV or
+// JSON with values converted to the user's display units (named in the column headers);
+// each day becomes an all-day iCalendar event.
+import type { DailyForecast, WeatherForecast } from './weather';
+import { Locale, intlLocaleOf, translate } from './i18n';
+import {
+  UnitPreferences,
+  convertTemperature,
+  convertWindSpeed,
+  formatPercent,
+  formatRain,
+  formatTemperature,
+  formatWindSpeed,
+  temperatureSymbol,
+  windSpeedLabel
+} from './units';
+import { summarizeDay } from './dailySummary';
+import { formatUtcOffset, toIsoAtLocation } from './time';
+
+export type ExportFormat = 'csv' | 'json' | 'ics';
+
+// Interface for one exported hourly row
+export interface ExportRow {
+  time: string;         // ISO 8601 at the location, with its UTC offset
+  temperature: number;
+  feels_like: number;
+  humidity: number;     // %
+  wind_speed: number;
+  wind_gust: number;
+  wind_direction: number; // Degrees, meteorological
+  pop: number;          // Precipitation probability, %
+  rain: number;         // mm over the 3h slot
+  description: string;
+}
+
+// Interface for the normalised JSON export
+export interface ForecastExport {
+  location: {
+    name: string;
+    country: string;
+    lat: number;
+    lon: number;
+    utc_offset: string;
+  };
+  units: {
+    temperature: string;
+    wind_speed: string;
+    humidity: '%';
+    pop: '%';
+    rain: 'mm';
+  };
+  generated_at: string;
+  hours: ExportRow[];
+}
+
+// MIME types and file extensions per format
+export const EXPORT_FILE_TYPES: Record<ExportFormat, { mime: string; extension: string }> = {
+  csv: { mime: 'text/csv;charset=utf-8', extension: 'csv' },
+  json: { mime: 'application/json', extension: 'json' },
+  ics: { mime: 'text/calendar;charset=utf-8', extension: 'ics' },
+};
+
+const round = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+// Flatten a forecast into hourly rows in the display units
+export const toExportRows = (forecast: WeatherForecast, preferences: UnitPreferences): ExportRow[] => {
+  const offset = forecast.city.timezone;
+  // Beaufort forces are whole numbers; other speeds keep one decimal
+  const windDecimals = preferences.windSpeed === 'beaufort' ? 0 : 1;
+
+  return forecast.daily_forecasts.flatMap((day) => day.hourly_forecasts.map((hour) => ({
+    time: toIsoAtLocation(hour.dt, offset),
+    temperature: round(convertTemperature(hour.main.temp, preferences.temperature), 1),
+    feels_like: round(convertTemperature(hour.main.feels_like, preferences.temperature), 1),
+    humidity: hour.main.humidity,
+    wind_speed: round(convertWindSpeed(hour.wind.speed, preferences.windSpeed), windDecimals),
+    wind_gust: round(convertWindSpeed(hour.wind.gust, preferences.windSpeed), windDecimals),
+    wind_direction: hour.wind.deg,
+    pop: Math.round(hour.pop * 100),
+    rain: round(hour.rain?.['3h'] ?? 0, 1),
+    description: hour.weather[0]?.description ?? '',
+  })));
+};
+
+// Text starting with these is run as a formula when the CSV is opened in a spreadsheet
+// (CSV injection), so a description from upstream could execute there
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+// Quote a CSV field if it contains a separator, quote or line break. Text that would start a
+// formula gets a leading apostrophe so spreadsheets show it as text; numbers (including
+// negative ones) are left alone.
+const csvField = (value: string | number) => {
+  const text = typeof value === 'string' && FORMULA_TRIGGER.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Hourly rows as CSV, one header line naming each column's unit
+export const toCsv = (forecast: WeatherForecast, preferences: UnitPreferences): string => {
+  const temperature = temperatureSymbol(preferences.temperature);
+  const wind = windSpeedLabel(preferences.windSpeed);
+  const header = [
+    'time',
+    `temperature (${temperature})`,
+    `feels_like (${temperature})`,
+    'humidity (%)',
+    `wind_speed (${wind})`,
+    `wind_gust (${wind})`,
+    'wind_direction (°)',
+    'pop (%)',
+    'rain (mm)',
+    'description',
+  ];
+  const rows = toExportRows(forecast, preferences).map((row) => [
+    row.time,
+    row.temperature,
+    row.feels_like,
+    row.humidity,
+    row.wind_speed,
+    row.wind_gust,
+    row.wind_direction,
+    row.pop,
+    row.rain,
+    row.description,
+  ]);
+  return [header, ...rows].map((fields) => fields.map(csvField).join(',')).join('\r\n') + '\r\n';
+};
+
+// Hourly rows as normalised JSON, with the location and units alongside
+export const toJson = (forecast: WeatherForecast, preferences: UnitPreferences, now: Date = new Date()): string => {
+  const data: ForecastExport = {
+    location: {
+      name: forecast.city_info.name,
+      country: forecast.city_info.country,
+      lat: forecast.city_info.lat,
+      lon: forecast.city_info.lon,
+      utc_offset: formatUtcOffset(forecast.city.timezone),
+    },
+    units: {
+      temperature: temperatureSymbol(preferences.temperature),
+      wind_speed: windSpeedLabel(preferences.windSpeed),
+      humidity: '%',
+      pop: '%',
+      rain: 'mm',
+    },
+    generated_at: now.toISOString(),
+    hours: toExportRows(forecast, preferences),
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+// Escape text for an iCalendar property value (RFC 5545 §3.3.11)
+const icsText = (value: string) => value.replace(/[\\;,]/g, (match) => `\\${match}`).replace(/\r?\n/g, '\\n');
+
+// Fold a content line to at most 75 octets, continuing with a leading space (RFC 5545 §3.1)
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+// "YYYY-MM-DD" as an iCalendar DATE, optionally shifted by whole days
+const icsDate = (date: string, addDays: number = 0) => {
+  const day = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + addDays);
+  return day.toISOString().slice(0, 10).replace(/-/g, '');
+};
+
+// A UTC instant as an iCalendar DATE-TIME
+const icsDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// One all-day event summarising a day's conditions
+const toEvent = (day: DailyForecast, forecast: WeatherForecast, preferences: UnitPreferences, locale: Locale, stamp: string) => {
+  const intlLocale = intlLocaleOf(locale);
+  const location = forecast.city_info;
+  const summary = summarizeDay(day);
+  const min = formatTemperature(summary?.temperature.min ?? day.min_temp, preferences.temperature, 0, intlLocale);
+  const max = formatTemperature(summary?.temperature.max ?? day.max_temp, preferences.temperature, 0, intlLocale);
+  const description = summary ? translate(locale, 'export.eventDescription', {
+    pop: formatPercent(summary.pop * 100, intlLocale),
+    wind: formatWindSpeed(summary.windSpeed, preferences.windSpeed, intlLocale),
+    gust: formatWindSpeed(summary.gust, preferences.windSpeed, intlLocale),
+    rain: formatRain(summary.rainTotal, intlLocale),
+  }) : '';
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${icsDate(day.date)}-${location.lat.toFixed(4)}_${location.lon.toFixed(4)}@weatherapp`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${icsDate(day.date)}`,
+    `DTEND;VALUE=DATE:${icsDate(day.date, 1)}`,
+    `SUMMARY:${icsText(translate(locale, 'export.eventSummary', { description: day.weather_description, min, max }))}`,
+    ...(description ? [`DESCRIPTION:${icsText(description)}`] : []),
+    `LOCATION:${icsText([location.name, location.country].filter(Boolean).join(', '))}`,
+    `GEO:${location.lat.toFixed(6)};${location.lon.toFixed(6)}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ];
+};
+
+// Daily forecasts as an iCalendar file of all-day events, worded in the UI language
+export const toICalendar = (forecast: WeatherForecast, preferences: UnitPreferences, locale: Locale, now: Date = new Date()): string => {
+  const stamp = icsDateTime(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//WeatherApp//Forecast Export//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${icsText(translate(locale, 'export.calendarName', { location: forecast.city_info.name }))}`,
+    ...forecast.daily_forecasts.flatMap((day) => toEvent(day, forecast, preferences, locale, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// Serialise a forecast in one of the export formats
+export const exportForecast = (format: ExportFormat, forecast: WeatherForecast, preferences: UnitPreferences, locale: Locale): string => {
+  switch (format) {
+    case 'csv':
+      return toCsv(forecast, preferences);
+    case 'json':
+      return toJson(forecast, preferences);
+    case 'ics':
+      return toICalendar(forecast, preferences, locale);
+  }
+};
+
+// File name for an export, e.g. "forecast-nairobi-2024-05-01.csv"
+export const exportFileName = (format: ExportFormat, forecast: WeatherForecast): string => {
+  const slug = forecast.city_info.name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '') || 'location';
+  const date = forecast.daily_forecasts[0]?.date.slice(0, 10) ?? 'forecast';
+  return `forecast-${slug}-${date}.${EXPORT_FILE_TYPES[format].extension}`;
+};
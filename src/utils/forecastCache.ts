@@ -0,0 +1,53 @@
+// utils/forecastCache.ts
+import type { WeatherForecast } from './weather';
+import { FORECASTS_STORE, openDatabase } from './database';
+
+// Interface for a cached forecast entry
+export interface ForecastCacheEntry {
+  key: string;
+  data: WeatherForecast;
+  fetchedAt: number; // Epoch milliseconds
+}
+
+// In-memory mirror so repeat lookups in the same session skip IndexedDB
+const memoryCache = new Map<string, ForecastCacheEntry>();
+
+// Read a cached entry, checking memory first and then IndexedDB
+export const readCachedForecast = async (key: string): Promise<ForecastCacheEntry | null> => {
+  const cached = memoryCache.get(key);
+  if (cached) return cached;
+
+  const db = await openDatabase();
+  if (!db) return null;
+
+  return new Promise((resolve) => {
+    const request = db.transaction(FORECASTS_STORE, 'readonly').objectStore(FORECASTS_STORE).get(key);
+    request.onsuccess = () => {
+      const entry = (request.result as ForecastCacheEntry | undefined) ?? null;
+      if (entry) memoryCache.set(key, entry);
+      resolve(entry);
+    };
+    request.onerror = () => {
+      console.error('Error reading forecast cache:', request.error);
+      resolve(null);
+    };
+  });
+};
+
+// Store an entry in memory and persist it to IndexedDB
+export const writeCachedForecast = async (entry: ForecastCacheEntry): Promise<void> => {
+  memoryCache.set(entry.key, entry);
+
+  const db = await openDatabase();
+  if (!db) return;
+
+  return new Promise((resolve) => {
+    const transaction = db.transaction(FORECASTS_STORE, 'readwrite');
+    transaction.objectStore(FORECASTS_STORE).put(entry);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => {
+      console.error('Error writing forecast cache:', transaction.error);
+      resolve();
+    };
+  });
+};
@@ -0,0 +1,136 @@
+// utils/forecastHistory.ts
+// Every fetched forecast that changed, kept per location so the UI can show how the prediction for a
+// given day changed as it got closer ("drift"). Stored in IndexedDB next to the forecast
+// cache; where IndexedDB is unavailable there is simply no history.
+import type { CityInfo, WeatherForecast } from './weather';
+import { HISTORY_STORE, openDatabase } from './database';
+import { summarizeDay } from './dailySummary';
+
+// Interface for one stored forecast
+export interface ForecastSnapshot {
+  location: string; // See historyLocationKey
+  fetchedAt: number; // Epoch milliseconds
+  forecast: WeatherForecast;
+}
+
+// Interface for what one snapshot predicted for a day
+export interface DriftPoint {
+  fetchedAt: number; // Epoch milliseconds
+  minTemp: number;   // °C
+  maxTemp: number;   // °C
+  pop: number;       // Highest precipitation probability of the day, 0-1
+}
+
+// Older snapshots can't cover any upcoming day of a 5-day forecast
+const MAX_SNAPSHOT_AGE = 7 * 24 * 60 * 60 * 1000;
+// Cap per location, oldest dropped first, so a location refreshed all day doesn't fill the database
+const MAX_SNAPSHOTS_PER_LOCATION = 120;
+
+// Key grouping snapshots by place: coordinates to ~1km, so a city search and a coordinate
+// lookup of the same place share a history
+export const historyLocationKey = (location: Pick<CityInfo, 'lat' | 'lon'>): string => {
+  return `${location.lat.toFixed(2)},${location.lon.toFixed(2)}`;
+};
+
+// Key range covering every snapshot of a location
+const locationRange = (location: string) => IDBKeyRange.bound([location, 0], [location, Infinity]);
+
+// Snapshots of a location, oldest first
+export const readForecastHistory = async (location: string): Promise<ForecastSnapshot[]> => {
+  const db = await openDatabase();
+  if (!db) return [];
+
+  return new Promise((resolve) => {
+    const request = db.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE).getAll(locationRange(location));
+    request.onsuccess = () => resolve(request.result as ForecastSnapshot[]);
+    request.onerror = () => {
+      console.error('Error reading forecast history:', request.error);
+      resolve([]);
+    };
+  });
+};
+
+// Whether two fetches returned the same prediction, as refetches between upstream model
+// updates do
+const samePrediction = (a: WeatherForecast, b: WeatherForecast) => {
+  return JSON.stringify(a.daily_forecasts) === JSON.stringify(b.daily_forecasts);
+};
+
+// Store a freshly fetched forecast unless it repeats the latest snapshot, then drop snapshots
+// past the retention limits
+export const recordForecastSnapshot = async (forecast: WeatherForecast, fetchedAt: number): Promise<void> => {
+  if (!forecast.city_info) return;
+  const db = await openDatabase();
+  if (!db) return;
+
+  const location = historyLocationKey(forecast.city_info);
+
+  return new Promise((resolve) => {
+    const transaction = db.transaction(HISTORY_STORE, 'readwrite');
+    const store = transaction.objectStore(HISTORY_STORE);
+    const request = store.getAllKeys(locationRange(location));
+
+    // Add the snapshot (unless it's a repeat) and delete the ones it pushes past the limits
+    const save = (times: number[], repeat: boolean) => {
+      if (!repeat) store.put({ location, fetchedAt, forecast } satisfies ForecastSnapshot);
+      const kept = (repeat ? times : [...times, fetchedAt])
+        .filter((time) => fetchedAt - time <= MAX_SNAPSHOT_AGE)
+        .slice(-MAX_SNAPSHOTS_PER_LOCATION);
+      for (const time of times) {
+        if (!kept.includes(time)) store.delete([location, time]);
+      }
+    };
+
+    request.onsuccess = () => {
+      // Keys sort by [location, fetchedAt], so these are in time order
+      const times = (request.result as [string, number][]).map(([, time]) => time);
+      const latest = times[times.length - 1];
+      if (latest === undefined) {
+        save(times, false);
+        return;
+      }
+
+      const previous = store.get([location, latest]);
+      previous.onsuccess = () => {
+        const snapshot = previous.result as ForecastSnapshot | undefined;
+        save(times, snapshot !== undefined && samePrediction(snapshot.forecast, forecast));
+      };
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => {
+      console.error('Error writing forecast history:', transaction.error);
+      resolve();
+    };
+  });
+};
+
+// Forget every snapshot of a location
+export const clearForecastHistory = async (location: string): Promise<void> => {
+  const db = await openDatabase();
+  if (!db) return;
+
+  return new Promise((resolve) => {
+    const transaction = db.transaction(HISTORY_STORE, 'readwrite');
+    transaction.objectStore(HISTORY_STORE).delete(locationRange(location));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => {
+      console.error('Error clearing forecast history:', transaction.error);
+      resolve();
+    };
+  });
+};
+
+// What each snapshot predicted for a calendar date ("YYYY-MM-DD"), oldest first; snapshots
+// that don't cover the date are skipped
+export const forecastDrift = (snapshots: ForecastSnapshot[], date: string): DriftPoint[] => {
+  return snapshots.flatMap((snapshot) => {
+    const day = snapshot.forecast.daily_forecasts.find((candidate) => candidate.date === date);
+    if (!day) return [];
+    return [{
+      fetchedAt: snapshot.fetchedAt,
+      minTemp: day.min_temp,
+      maxTemp: day.max_temp,
+      pop: summarizeDay(day)?.pop ?? 0,
+    }];
+  });
+};
@@ -0,0 +1,78 @@
+// utils/geolocation.ts
+// Browser geolocation, plus a remembered "denied" flag so the app never asks again on its own
+// once the user has refused.
+
+const DENIED_KEY = 'weatherapp:geolocationDenied';
+
+// Options for the browser's geolocation lookup
+const GEOLOCATION_OPTIONS: PositionOptions = {
+  timeout: 10000, // 10 second timeout for getting position
+  maximumAge: 60000, // Accept a cached position up to 1 minute old
+  enableHighAccuracy: false // Prioritize speed over accuracy
+};
+
+// Error for a failed position lookup; `denied` is set when the user refused permission
+export class GeolocationError extends Error {
+  readonly denied: boolean;
+
+  constructor(message: string, denied: boolean) {
+    super(message);
+    this.name = 'GeolocationError';
+    this.denied = denied;
+  }
+}
+
+export const isGeolocationSupported = () => typeof navigator !== 'undefined' && 'geolocation' in navigator;
+
+// Whether the user has refused geolocation, either remembered from an earlier visit
+// or reported by the Permissions API
+export const isGeolocationDenied = async (): Promise<boolean> => {
+  try {
+    if (window.localStorage.getItem(DENIED_KEY) === 'true') return true;
+  } catch (error) {
+    console.error('Error reading geolocation permission:', error);
+  }
+
+  try {
+    const status = await navigator.permissions?.query({ name: 'geolocation' });
+    return status?.state === 'denied';
+  } catch {
+    // Permissions API unavailable; only an actual lookup can tell
+    return false;
+  }
+};
+
+const rememberDenied = (denied: boolean) => {
+  try {
+    if (denied) {
+      window.localStorage.setItem(DENIED_KEY, 'true');
+    } else {
+      window.localStorage.removeItem(DENIED_KEY);
+    }
+  } catch (error) {
+    console.error('Error saving geolocation permission:', error);
+  }
+};
+
+// Look up the browser's position. A refusal is remembered; a later success (the user
+// re-enabled it and asked explicitly) clears it again.
+export const getCurrentPosition = (): Promise<{ lat: number; lon: number }> => {
+  if (!isGeolocationSupported()) {
+    return Promise.reject(new GeolocationError('Geolocation is not supported', false));
+  }
+
+  return new Promise((resolve, reject) => {
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        rememberDenied(false);
+        resolve({ lat: position.coords.latitude, lon: position.coords.longitude });
+      },
+      (err) => {
+        const denied = err.code === err.PERMISSION_DENIED;
+        if (denied) rememberDenied(true);
+        reject(new GeolocationError(err.message, denied));
+      },
+      GEOLOCATION_OPTIONS
+    );
+  });
+};
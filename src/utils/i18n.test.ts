@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { isLocale, matchLocale, translate } from './i18n';
+
+describe('isLocale', () => {
+  it('accepts the supported locales', () => {
+    expect(['en', 'fr', 'sw'].every(isLocale)).toBe(true);
+  });
+
+  it('rejects anything else, including names inherited from Object', () => {
+    for (const value of ['de', 'EN', '', 'constructor', 'toString', '__proto__', 'hasOwnProperty', null, 1]) {
+      expect(isLocale(value)).toBe(false);
+    }
+  });
+});
+
+describe('matchLocale', () => {
+  it('picks the first supported language, ignoring regions', () => {
+    expect(matchLocale(['de-DE', 'fr-CA', 'sw'])).toBe('fr');
+  });
+
+  it('falls back to English', () => {
+    expect(matchLocale(['constructor', 'de'])).toBe('en');
+  });
+});
+
+describe('translate', () => {
+  it('fills in placeholders and leaves unknown ones', () => {
+    expect(translate('en', 'errors.cityNotFound', { city: 'Atlantis' })).toBe('Could not find "Atlantis". Check the spelling or pick one of the suggestions.');
+    expect(translate('en', 'app.offline')).toBe('Showing data from {time} (offline)');
+  });
+});
@@ -0,0 +1,53 @@
+// utils/i18n.ts
+import en, { MessageKey, Messages } from '../locales/en';
+import fr from '../locales/fr';
+import sw from '../locales/sw';
+
+export type { MessageKey, Messages };
+
+// Languages the UI is translated into
+export type Locale = 'en' | 'fr' | 'sw';
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Options for the language picker, each labelled in its own language
+export const LOCALE_OPTIONS: { value: Locale; label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'fr', label: 'Français' },
+  { value: 'sw', label: 'Kiswahili' },
+];
+
+const MESSAGES: Record<Locale, Messages> = { en, fr, sw };
+
+// BCP 47 tags used for Intl date and number formatting
+const INTL_LOCALES: Record<Locale, string> = {
+  en: 'en-US',
+  fr: 'fr-FR',
+  sw: 'sw-KE',
+};
+
+// Values substituted into a message's {placeholders}
+export type MessageValues = Record<string, string | number>;
+
+export const isLocale = (value: unknown): value is Locale => {
+  return typeof value === 'string' && Object.hasOwn(MESSAGES, value);
+};
+
+// Intl locale tag for a UI locale
+export const intlLocaleOf = (locale: Locale): string => INTL_LOCALES[locale];
+
+// Pick the first supported locale from the browser's preferred languages (e.g. "fr-CA" -> "fr")
+export const matchLocale = (languages: readonly string[]): Locale => {
+  for (const language of languages) {
+    const base = language.toLowerCase().split('-')[0];
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+};
+
+// Look up a message and fill in its placeholders; unknown placeholders are left as-is
+export const translate = (locale: Locale, key: MessageKey, values?: MessageValues): string => {
+  const template = MESSAGES[locale][key] ?? en[key];
+  if (!values) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in values ? String(values[name]) : match));
+};
@@ -0,0 +1,33 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { showNotification } from './serviceWorker';
+
+const OPTIONS = { body: 'Rain above 80% on Tue 3 PM', tag: 'rule-1:1741597200' };
+
+describe('showNotification', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('shows it through the service worker when one is registered', async () => {
+    const registration = { showNotification: vi.fn(async () => {}) };
+    vi.stubGlobal('navigator', {
+      serviceWorker: { getRegistration: vi.fn(async () => registration), ready: Promise.resolve(registration) },
+    });
+    const constructor = vi.fn();
+    vi.stubGlobal('Notification', constructor);
+
+    await showNotification('Weather alert for Nairobi', OPTIONS);
+    expect(registration.showNotification).toHaveBeenCalledWith('Weather alert for Nairobi', OPTIONS);
+    expect(constructor).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the page’s own notification without a service worker', async () => {
+    vi.stubGlobal('navigator', { serviceWorker: { getRegistration: vi.fn(async () => undefined) } });
+    const constructor = vi.fn();
+    vi.stubGlobal('Notification', constructor);
+
+    await showNotification('Weather alert for Nairobi', OPTIONS);
+    expect(constructor).toHaveBeenCalledWith('Weather alert for Nairobi', OPTIONS);
+  });
+});
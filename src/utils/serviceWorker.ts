@@ -0,0 +1,66 @@
+// utils/serviceWorker.ts
+// Client side of the service worker in public/sw.js. The tag, message type and header names
+// below are duplicated there, since the worker is served as a plain script.
+
+// Periodic background sync tag that refreshes the last-viewed forecast
+const PERIODIC_SYNC_TAG = 'refresh-last-forecast';
+// Ask for a refresh at most this often; the browser decides the actual schedule
+const PERIODIC_SYNC_INTERVAL = 60 * 60 * 1000;
+
+// Header the worker adds when it answers an API request from its cache because the network failed.
+// Its value is when the cached response was originally fetched (epoch milliseconds).
+export const SW_FALLBACK_HEADER = 'x-sw-fetched-at';
+
+// Periodic Background Sync isn't in the DOM typings yet
+interface PeriodicSyncManager {
+  register: (tag: string, options?: { minInterval: number }) => Promise<void>;
+}
+
+// Register periodic background sync where the browser supports and allows it
+// (Chromium only grants it to installed apps)
+const registerPeriodicSync = async (registration: ServiceWorkerRegistration) => {
+  const periodicSync = (registration as ServiceWorkerRegistration & { periodicSync?: PeriodicSyncManager }).periodicSync;
+  if (!periodicSync) return;
+
+  try {
+    const status = await navigator.permissions.query({ name: 'periodic-background-sync' as PermissionName });
+    if (status.state !== 'granted') return;
+    await periodicSync.register(PERIODIC_SYNC_TAG, { minInterval: PERIODIC_SYNC_INTERVAL });
+  } catch (error) {
+    console.warn('Periodic background sync unavailable:', error);
+  }
+};
+
+// Register the service worker. Skipped in development, where caching the app shell
+// would serve stale bundles across hot reloads.
+export const registerServiceWorker = async () => {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+  try {
+    const registration = await navigator.serviceWorker.register('/sw.js');
+    await registerPeriodicSync(registration);
+  } catch (error) {
+    console.error('Service worker registration failed:', error);
+  }
+};
+
+// Tell the service worker which forecast URL to refresh during periodic background sync
+export const rememberLastForecast = async (url: string) => {
+  if (!('serviceWorker' in navigator)) return;
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  registration?.active?.postMessage({ type: 'last-forecast', url });
+};
+
+// Show a notification through the service worker when one is registered: Android Chrome only
+// allows notifications from a worker and throws on `new Notification()`. Without a worker
+// (e.g. under `next dev`) the page shows it itself.
+export const showNotification = async (title: string, options: NotificationOptions) => {
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (registration) {
+    const ready = await navigator.serviceWorker.ready;
+    await ready.showNotification(title, options);
+    return;
+  }
+  new Notification(title, options);
+};
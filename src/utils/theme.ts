@@ -0,0 +1,81 @@
+// utils/theme.ts
+// Colour theme selection. The resolved theme is applied as data-theme on <html> (see
+// globals.css); THEME_INIT_SCRIPT repeats resolveTheme() inline in the document head so the
+// first paint already uses it, so keep the two in step.
+
+// What the user picked: a fixed theme, the operating system's, or dark between sunset and sunrise
+// at the shown location
+export type ThemeMode = 'light' | 'dark' | 'system' | 'auto';
+export type ResolvedTheme = 'light' | 'dark';
+
+export const DEFAULT_THEME_MODE: ThemeMode = 'system';
+
+export const THEME_STORAGE_KEY = 'weatherapp:theme';
+// Sun times of the last shown location, so 'auto' resolves before the forecast loads
+export const SUN_TIMES_STORAGE_KEY = 'weatherapp:sunTimes';
+// High-contrast choice (see hooks/useContrastPreference.ts), also applied before first paint
+export const CONTRAST_STORAGE_KEY = 'weatherapp:contrast';
+
+// Interface for the shown location's sunrise and sunset (Unix seconds, as in City)
+export interface SunTimes {
+  sunrise: number;
+  sunset: number;
+}
+
+export const THEME_MODES: ThemeMode[] = ['light', 'dark', 'system', 'auto'];
+
+export const isThemeMode = (value: unknown): value is ThemeMode => {
+  return typeof value === 'string' && (THEME_MODES as string[]).includes(value);
+};
+
+// Whether a time of day falls between sunrise and sunset. The backend's sun times are for the
+// current day, so other days are compared by time of day only.
+export const isDaytime = (sunTimes: SunTimes, nowSeconds: number): boolean => {
+  const day = 24 * 60 * 60;
+  const sinceSunrise = ((nowSeconds - sunTimes.sunrise) % day + day) % day;
+  return sinceSunrise < sunTimes.sunset - sunTimes.sunrise;
+};
+
+// Theme to show for a mode. 'auto' falls back to the system theme until sun times are known.
+export const resolveTheme = (
+  mode: ThemeMode,
+  systemDark: boolean,
+  sunTimes: SunTimes | null,
+  nowSeconds: number
+): ResolvedTheme => {
+  switch (mode) {
+    case 'light':
+    case 'dark':
+      return mode;
+    case 'auto':
+      if (sunTimes && sunTimes.sunset > sunTimes.sunrise) {
+        return isDaytime(sunTimes, nowSeconds) ? 'light' : 'dark';
+      }
+      return systemDark ? 'dark' : 'light';
+    default:
+      return systemDark ? 'dark' : 'light';
+  }
+};
+
+// Inline script for the document head: applies the saved theme and contrast before React loads
+export const THEME_INIT_SCRIPT = `(function () {
+  try {
+    var root = document.documentElement;
+    var mode = localStorage.getItem('${THEME_STORAGE_KEY}') || '${DEFAULT_THEME_MODE}';
+    var systemDark = window.matchMedia('(prefers-color-scheme: dark)').matches;
+    var theme = systemDark ? 'dark' : 'light';
+    if (mode === 'light' || mode === 'dark') {
+      theme = mode;
+    } else if (mode === 'auto') {
+      var sun = JSON.parse(localStorage.getItem('${SUN_TIMES_STORAGE_KEY}') || 'null');
+      if (sun && sun.sunset > sun.sunrise) {
+        var day = 86400;
+        var sinceSunrise = ((Date.now() / 1000 - sun.sunrise) % day + day) % day;
+        theme = sinceSunrise < sun.sunset - sun.sunrise ? 'light' : 'dark';
+      }
+    }
+    root.dataset.theme = theme;
+    var contrast = localStorage.getItem('${CONTRAST_STORAGE_KEY}');
+    root.dataset.contrast = contrast === 'high' || (contrast !== 'normal' && window.matchMedia('(prefers-contrast: more)').matches) ? 'high' : 'normal';
+  } catch (e) {}
+})();`;
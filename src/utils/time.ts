@@ -0,0 +1,72 @@
+// utils/time.ts
+// Formatting of instants in a forecast location's own timezone. The backend gives us a fixed
+// UTC offset in seconds (City.timezone) rather than an IANA zone name, so we shift the
+// instant by that offset and format it as if it were UTC.
+
+// All formatters take an Intl locale tag (see utils/i18n.ts), defaulting to US English.
+
+// Format a UTC instant (epoch milliseconds) as wall-clock time at a location
+export const formatAtLocation = (
+  epochMs: number,
+  offsetSeconds: number,
+  options: Intl.DateTimeFormatOptions,
+  locale: string = 'en-US'
+): string => {
+  return new Date(epochMs + offsetSeconds * 1000).toLocaleString(locale, { ...options, timeZone: 'UTC' });
+};
+
+// Format a forecast timestamp (Unix seconds, e.g. HourlyForecast.dt) at a location
+export const formatUnixAtLocation = (
+  unixSeconds: number,
+  offsetSeconds: number,
+  options: Intl.DateTimeFormatOptions,
+  locale: string = 'en-US'
+): string => {
+  return formatAtLocation(unixSeconds * 1000, offsetSeconds, options, locale);
+};
+
+// Format a calendar date string ("YYYY-MM-DD", e.g. DailyForecast.date) without shifting it
+// into the browser's zone, which would move it a day back west of UTC
+export const formatCalendarDate = (
+  dateString: string,
+  options: Intl.DateTimeFormatOptions,
+  locale: string = 'en-US'
+): string => {
+  const date = new Date(`${dateString.slice(0, 10)}T00:00:00Z`);
+  if (Number.isNaN(date.getTime())) return dateString;
+  return date.toLocaleDateString(locale, { ...options, timeZone: 'UTC' });
+};
+
+// Weekday name of a calendar date, e.g. "Thursday" or "jeudi"; used instead of the backend's
+// English DailyForecast.day_of_week
+export const formatWeekday = (dateString: string, locale: string = 'en-US'): string => {
+  return formatCalendarDate(dateString, { weekday: 'long' }, locale);
+};
+
+// Format a length of time in seconds as "11h 52m"
+export const formatDuration = (seconds: number): string => {
+  const totalMinutes = Math.max(0, Math.round(seconds / 60));
+  return `${Math.floor(totalMinutes / 60)}h ${totalMinutes % 60}m`;
+};
+
+// How far the sun is between sunrise (0) and sunset (1) at `nowSeconds`; null at night
+export const sunProgress = (nowSeconds: number, sunrise: number, sunset: number): number | null => {
+  if (sunset <= sunrise || nowSeconds < sunrise || nowSeconds > sunset) return null;
+  return (nowSeconds - sunrise) / (sunset - sunrise);
+};
+
+// Format a UTC offset in seconds as "+03:00" / "-05:30"
+export const formatUtcOffset = (offsetSeconds: number): string => {
+  const sign = offsetSeconds < 0 ? '-' : '+';
+  const totalMinutes = Math.round(Math.abs(offsetSeconds) / 60);
+  const hours = String(Math.floor(totalMinutes / 60)).padStart(2, '0');
+  const minutes = String(totalMinutes % 60).padStart(2, '0');
+  return `${sign}${hours}:${minutes}`;
+};
+
+// ISO 8601 timestamp of a forecast time as wall-clock time at a location, with the
+// location's offset ("2024-05-01T15:00:00+03:00")
+export const toIsoAtLocation = (unixSeconds: number, offsetSeconds: number): string => {
+  const wallClock = new Date((unixSeconds + offsetSeconds) * 1000).toISOString().slice(0, 19);
+  return `${wallClock}${formatUtcOffset(offsetSeconds)}`;
+};
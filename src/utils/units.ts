@@ -0,0 +1,184 @@
+// utils/units.ts
+// Client-side unit conversion. Forecasts are always fetched in metric (the canonical form:
+// °C, m/s, hPa, metres) and converted for display according to the user's preferences.
+
+export type TemperatureUnit = 'celsius' | 'fahrenheit';
+export type WindSpeedUnit = 'm/s' | 'km/h' | 'mph' | 'knots' | 'beaufort';
+export type PressureUnit = 'hPa' | 'inHg' | 'mmHg';
+export type VisibilityUnit = 'km' | 'mi';
+
+// Interface for per-quantity display unit preferences
+export interface UnitPreferences {
+  temperature: TemperatureUnit;
+  windSpeed: WindSpeedUnit;
+  pressure: PressureUnit;
+  visibility: VisibilityUnit;
+}
+
+export const DEFAULT_UNIT_PREFERENCES: UnitPreferences = {
+  temperature: 'celsius',
+  windSpeed: 'm/s',
+  pressure: 'hPa',
+  visibility: 'km',
+};
+
+// Named presets for sharing settings in links (e.g. ?units=imperial)
+export type UnitSystem = 'metric' | 'imperial';
+
+export const UNIT_SYSTEM_PRESETS: Record<UnitSystem, UnitPreferences> = {
+  metric: DEFAULT_UNIT_PREFERENCES,
+  imperial: {
+    temperature: 'fahrenheit',
+    windSpeed: 'mph',
+    pressure: 'inHg',
+    visibility: 'mi',
+  },
+};
+
+// The preset a set of preferences is closest to (decided by the temperature unit)
+export const unitSystemOf = (preferences: UnitPreferences): UnitSystem => {
+  return preferences.temperature === 'fahrenheit' ? 'imperial' : 'metric';
+};
+
+// Options for unit pickers, in display order
+export const UNIT_OPTIONS: { [K in keyof UnitPreferences]: { value: UnitPreferences[K]; label: string }[] } = {
+  temperature: [
+    { value: 'celsius', label: '°C' },
+    { value: 'fahrenheit', label: '°F' },
+  ],
+  windSpeed: [
+    { value: 'm/s', label: 'm/s' },
+    { value: 'km/h', label: 'km/h' },
+    { value: 'mph', label: 'mph' },
+    { value: 'knots', label: 'knots' },
+    { value: 'beaufort', label: 'Beaufort' },
+  ],
+  pressure: [
+    { value: 'hPa', label: 'hPa' },
+    { value: 'inHg', label: 'inHg' },
+    { value: 'mmHg', label: 'mmHg' },
+  ],
+  visibility: [
+    { value: 'km', label: 'km' },
+    { value: 'mi', label: 'mi' },
+  ],
+};
+
+// Upper wind speed bound (m/s) of Beaufort forces 0-11; anything above is force 12
+const BEAUFORT_LIMITS = [0.5, 1.5, 3.3, 5.5, 7.9, 10.7, 13.8, 17.1, 20.7, 24.4, 28.4, 32.6];
+
+// Convert a temperature from °C
+export const convertTemperature = (celsius: number, unit: TemperatureUnit): number => {
+  return unit === 'fahrenheit' ? celsius * 9 / 5 + 32 : celsius;
+};
+
+// Get the Beaufort force (0-12) for a wind speed in m/s
+export const toBeaufort = (metresPerSecond: number): number => {
+  const force = BEAUFORT_LIMITS.findIndex((limit) => metresPerSecond < limit);
+  return force === -1 ? 12 : force;
+};
+
+// Convert a wind speed from m/s
+export const convertWindSpeed = (metresPerSecond: number, unit: WindSpeedUnit): number => {
+  switch (unit) {
+    case 'km/h':
+      return metresPerSecond * 3.6;
+    case 'mph':
+      return metresPerSecond * 2.236936;
+    case 'knots':
+      return metresPerSecond * 1.943844;
+    case 'beaufort':
+      return toBeaufort(metresPerSecond);
+    default:
+      return metresPerSecond;
+  }
+};
+
+// Convert a pressure from hPa
+export const convertPressure = (hectopascals: number, unit: PressureUnit): number => {
+  switch (unit) {
+    case 'inHg':
+      return hectopascals * 0.02953;
+    case 'mmHg':
+      return hectopascals * 0.750062;
+    default:
+      return hectopascals;
+  }
+};
+
+// Convert a visibility from metres
+export const convertVisibility = (metres: number, unit: VisibilityUnit): number => {
+  return unit === 'mi' ? metres / 1609.344 : metres / 1000;
+};
+
+// Convert a temperature entered in the display unit back to °C
+export const toCelsius = (value: number, unit: TemperatureUnit): number => {
+  return unit === 'fahrenheit' ? (value - 32) * 5 / 9 : value;
+};
+
+// Convert a wind speed entered in the display unit back to m/s (Beaufort maps to the force's lower bound)
+export const toMetresPerSecond = (value: number, unit: WindSpeedUnit): number => {
+  switch (unit) {
+    case 'km/h':
+      return value / 3.6;
+    case 'mph':
+      return value / 2.236936;
+    case 'knots':
+      return value / 1.943844;
+    case 'beaufort': {
+      const force = Math.max(0, Math.min(12, Math.round(value)));
+      return force === 0 ? 0 : BEAUFORT_LIMITS[force - 1];
+    }
+    default:
+      return value;
+  }
+};
+
+// Get the symbol shown after a temperature (e.g. "°C")
+export const temperatureSymbol = (unit: TemperatureUnit): string => {
+  return unit === 'fahrenheit' ? '°F' : '°C';
+};
+
+// Get the label shown after a wind speed
+export const windSpeedLabel = (unit: WindSpeedUnit): string => {
+  return unit === 'beaufort' ? 'Bft' : unit;
+};
+
+// Format a number with a fixed number of decimals using the locale's separators
+export const formatNumber = (value: number, decimals: number = 0, locale: string = 'en-US'): string => {
+  return value.toLocaleString(locale, { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+};
+
+// Format a 0-100 value as a percentage ("45%", or "45 %" in French)
+export const formatPercent = (value: number, locale: string = 'en-US'): string => {
+  return (value / 100).toLocaleString(locale, { style: 'percent', maximumFractionDigits: 0 });
+};
+
+// Format a °C temperature, rounded to whole degrees by default
+export const formatTemperature = (celsius: number, unit: TemperatureUnit, decimals: number = 0, locale: string = 'en-US'): string => {
+  return `${formatNumber(convertTemperature(celsius, unit), decimals, locale)}${temperatureSymbol(unit)}`;
+};
+
+// Format a m/s wind speed; Beaufort is shown as a whole force number
+export const formatWindSpeed = (metresPerSecond: number, unit: WindSpeedUnit, locale: string = 'en-US'): string => {
+  if (unit === 'beaufort') {
+    return `${toBeaufort(metresPerSecond)} Bft`;
+  }
+  return `${formatNumber(convertWindSpeed(metresPerSecond, unit), 1, locale)} ${unit}`;
+};
+
+// Format a hPa pressure with precision suited to the unit
+export const formatPressure = (hectopascals: number, unit: PressureUnit, locale: string = 'en-US'): string => {
+  const decimals = unit === 'inHg' ? 2 : 0;
+  return `${formatNumber(convertPressure(hectopascals, unit), decimals, locale)} ${unit}`;
+};
+
+// Format a visibility given in metres
+export const formatVisibility = (metres: number, unit: VisibilityUnit, locale: string = 'en-US'): string => {
+  return `${formatNumber(convertVisibility(metres, unit), 1, locale)} ${unit}`;
+};
+
+// Format a rain volume in millimetres
+export const formatRain = (millimetres: number, locale: string = 'en-US'): string => {
+  return `${formatNumber(millimetres, 1, locale)} mm`;
+};
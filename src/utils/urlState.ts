@@ -0,0 +1,87 @@
+// utils/urlState.ts
+// Shareable page state in the URL query string, e.g.
+//   ?q=Nairobi&units=imperial&day=2025-05-08
+//   ?lat=-1.2864&lon=36.8172&units=metric
+import type { ForecastLocation } from './weather';
+import type { UnitSystem } from './units';
+
+// Cookie holding the last shown location as a query string (e.g. "?q=Nairobi"), so the
+// server can render the forecast for the next visit before any script runs
+export const LOCATION_COOKIE = 'weatherapp-location';
+
+// Interface for the page state encoded in the URL
+export interface UrlState {
+  location: ForecastLocation | null;
+  units: UnitSystem | null;
+  day: string | null; // DailyForecast.date of the selected day
+}
+
+// Parse a query string (with or without the leading "?")
+export const readUrlState = (search: string): UrlState => {
+  const params = new URLSearchParams(search);
+
+  let location: ForecastLocation | null = null;
+  const lat = parseFloat(params.get('lat') ?? '');
+  const lon = parseFloat(params.get('lon') ?? '');
+  const query = params.get('q')?.trim();
+  if (Number.isFinite(lat) && Number.isFinite(lon) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180) {
+    location = { lat, lon };
+  } else if (query) {
+    location = { city: query };
+  }
+
+  const units = params.get('units');
+
+  return {
+    location,
+    units: units === 'metric' || units === 'imperial' ? units : null,
+    day: params.get('day') || null,
+  };
+};
+
+// Query string (with the leading "?", or empty) from a server component's searchParams
+export const searchFromParams = (params: Record<string, string | string[] | undefined>): string => {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    // Repeated parameters keep their first value, as URLSearchParams.get does
+    const first = Array.isArray(value) ? value[0] : value;
+    if (first !== undefined) search.set(key, first);
+  }
+  const query = search.toString();
+  return query ? `?${query}` : '';
+};
+
+// Build a query string (including the leading "?", or empty) from page state
+export const buildUrlSearch = (state: UrlState): string => {
+  const params = new URLSearchParams();
+
+  if (state.location && 'city' in state.location) {
+    params.set('q', state.location.city);
+  } else if (state.location) {
+    params.set('lat', state.location.lat.toFixed(4));
+    params.set('lon', state.location.lon.toFixed(4));
+  }
+  if (state.units) params.set('units', state.units);
+  if (state.day) params.set('day', state.day);
+
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
+
+// Whether two locations would put the same location in the URL
+export const sameUrlLocation = (a: ForecastLocation, b: ForecastLocation): boolean => {
+  return buildUrlSearch({ location: a, units: null, day: null }) === buildUrlSearch({ location: b, units: null, day: null });
+};
+
+// Write page state to the address bar; 'push' adds a history entry, 'replace' updates the current one
+export const writeUrlState = (state: UrlState, mode: 'push' | 'replace') => {
+  const search = buildUrlSearch(state);
+  if (search === window.location.search) return;
+
+  const url = `${window.location.pathname}${search}${window.location.hash}`;
+  if (mode === 'push') {
+    window.history.pushState(null, '', url);
+  } else {
+    window.history.replaceState(null, '', url);
+  }
+};
@@ -0,0 +1,191 @@
+import { describe, expect, it } from 'vitest';
+import forecastFixture from '../server/providers/fixtures/forecast-nairobi.json';
+import placesFixture from '../server/providers/fixtures/places.json';
+import {
+  ResponseValidationError,
+  validateIpLocation,
+  validateNominatimPlace,
+  validateNominatimPlaces,
+  validateWeatherForecast
+} from './validation';
+
+// A fresh, mutable copy of a fixture
+const copy = <T>(value: T): T => structuredClone(value);
+
+// Remove a field, as a payload missing it would
+const omit = <T extends object>(record: T, key: keyof T) => {
+  delete (record as Partial<T>)[key];
+};
+
+// Give a field a value of the wrong type, as a malformed payload would
+const corrupt = <T extends object>(record: T, key: keyof T, value: unknown) => {
+  (record as Record<keyof T, unknown>)[key] = value;
+};
+
+// The issues a validator reports for a payload (fails the test if it doesn't throw)
+const issuesOf = (validate: () => unknown): string[] => {
+  try {
+    validate();
+  } catch (error) {
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    return (error as ResponseValidationError).issues;
+  }
+  throw new Error('expected the payload to be rejected');
+};
+
+describe('validateWeatherForecast', () => {
+  it('accepts the fixture forecast unchanged', () => {
+    const forecast = validateWeatherForecast(copy(forecastFixture));
+    expect(forecast.city.name).toBe('Nairobi');
+    expect(forecast.city_info).toEqual(forecastFixture.city_info);
+    expect(forecast.daily_forecasts).toHaveLength(forecastFixture.daily_forecasts.length);
+    expect(forecast.daily_forecasts[0].hourly_forecasts[0]).toEqual(forecastFixture.daily_forecasts[0].hourly_forecasts[0]);
+  });
+
+  it('uses the sustained wind speed when the gust is missing', () => {
+    const raw = copy(forecastFixture);
+    omit(raw.daily_forecasts[0].hourly_forecasts[0].wind, 'gust');
+    const hour = validateWeatherForecast(raw).daily_forecasts[0].hourly_forecasts[0];
+    expect(hour.wind.gust).toBe(hour.wind.speed);
+  });
+
+  it('defaults a missing visibility to the 10km maximum', () => {
+    const raw = copy(forecastFixture);
+    omit(raw.daily_forecasts[0].hourly_forecasts[0], 'visibility');
+    expect(validateWeatherForecast(raw).daily_forecasts[0].hourly_forecasts[0].visibility).toBe(10000);
+  });
+
+  it('builds city_info from the city block when it is missing', () => {
+    const raw = copy(forecastFixture);
+    omit(raw, 'city_info');
+    expect(validateWeatherForecast(raw).city_info).toEqual({ name: 'Nairobi', country: 'KE', lat: -1.2833, lon: 36.8167 });
+  });
+
+  it('fills optional hourly fields from the ones present', () => {
+    const raw = copy(forecastFixture);
+    const hour = raw.daily_forecasts[0].hourly_forecasts[0];
+    omit(hour.main, 'feels_like');
+    omit(hour.main, 'sea_level');
+    omit(hour, 'pop');
+    omit(hour, 'dt_txt');
+    const validated = validateWeatherForecast(raw).daily_forecasts[0].hourly_forecasts[0];
+    expect(validated.main.feels_like).toBe(hour.main.temp);
+    expect(validated.main.sea_level).toBe(hour.main.pressure);
+    expect(validated.pop).toBe(0);
+    expect(validated.dt_txt).toBe('2025-03-10 09:00:00');
+  });
+
+  it('rejects a payload that is not an object', () => {
+    expect(issuesOf(() => validateWeatherForecast(null))).toContain('forecast: expected object, got null');
+  });
+
+  it('rejects an empty daily_forecasts list', () => {
+    const raw = copy(forecastFixture);
+    raw.daily_forecasts = [];
+    expect(issuesOf(() => validateWeatherForecast(raw))).toEqual(['daily_forecasts: expected at least one day']);
+  });
+
+  it('rejects daily_forecasts that is not an array', () => {
+    const raw = copy(forecastFixture);
+    corrupt(raw, 'daily_forecasts', {});
+    expect(issuesOf(() => validateWeatherForecast(raw))).toEqual(['daily_forecasts: expected array, got object']);
+  });
+
+  it('lists the path of every wrongly typed field', () => {
+    const raw = copy(forecastFixture);
+    corrupt(raw.city, 'sunrise', '06:00');
+    corrupt(raw.daily_forecasts[1], 'avg_temp', null);
+    corrupt(raw.daily_forecasts[2].hourly_forecasts[3].main, 'temp', 'warm');
+    corrupt(raw.daily_forecasts[2].hourly_forecasts[3], 'weather', 'clear');
+
+    expect(issuesOf(() => validateWeatherForecast(raw))).toEqual([
+      'city.sunrise: expected number, got string',
+      'daily_forecasts[1].avg_temp: expected number, got null',
+      'daily_forecasts[2].hourly_forecasts[3].main.temp: expected number, got string',
+      'daily_forecasts[2].hourly_forecasts[3].weather: expected array, got string',
+    ]);
+  });
+
+  it('summarises long issue lists in the error message', () => {
+    const raw = copy(forecastFixture);
+    for (const hour of raw.daily_forecasts[1].hourly_forecasts) corrupt(hour, 'dt', 'soon');
+    expect(() => validateWeatherForecast(raw)).toThrow(/\(and 3 more\)$/);
+  });
+});
+
+describe('validateNominatimPlace', () => {
+  it('accepts a fixture place', () => {
+    const place = validateNominatimPlace(copy(placesFixture[0]));
+    expect(place.lat).toBe('-1.2832533');
+    expect(place.address).toEqual({ city: 'Nairobi', state: 'Nairobi County', country: 'Kenya', country_code: 'ke' });
+  });
+
+  it('defaults the country for places outside any country', () => {
+    const raw = copy(placesFixture[0]);
+    omit(raw.address, 'country');
+    omit(raw.address, 'country_code');
+    const place = validateNominatimPlace(raw);
+    expect(place.address.country).toBe('');
+    expect(place.address.country_code).toBe('');
+  });
+
+  it('reports Nominatim error bodies', () => {
+    expect(issuesOf(() => validateNominatimPlace({ error: 'Unable to geocode' }))).toEqual(['place: Unable to geocode']);
+  });
+
+  it('rejects coordinates that are not numeric strings', () => {
+    const raw = copy(placesFixture[0]);
+    corrupt(raw, 'lat', -1.28);
+    raw.lon = 'east';
+    expect(issuesOf(() => validateNominatimPlace(raw))).toEqual([
+      'place.lat: expected numeric string, got number',
+      'place.lon: expected numeric string, got string',
+    ]);
+  });
+});
+
+describe('validateNominatimPlaces', () => {
+  it('accepts the fixture search results', () => {
+    expect(validateNominatimPlaces(copy(placesFixture)).map((place) => place.address.country_code)).toEqual(['ke', 'ke', 'ke', 'ke', 'ke']);
+  });
+
+  it('rejects a response that is not a list', () => {
+    expect(issuesOf(() => validateNominatimPlaces({}))).toEqual(['places: expected array, got object']);
+  });
+
+  it('reports issues by result index', () => {
+    const raw = copy(placesFixture);
+    corrupt(raw[3], 'address', null);
+    expect(issuesOf(() => validateNominatimPlaces(raw))).toEqual(['places[3].address: expected object, got null']);
+  });
+});
+
+describe('validateIpLocation', () => {
+  it('accepts ipapi.co responses', () => {
+    expect(validateIpLocation({ latitude: -1.28, longitude: 36.82, city: 'Nairobi', country_name: 'Kenya' }))
+      .toEqual({ lat: -1.28, lon: 36.82, city: 'Nairobi', country: 'Kenya' });
+  });
+
+  it('accepts ip-api.com responses', () => {
+    expect(validateIpLocation({ status: 'success', lat: -4.04, lon: 39.67, city: 'Mombasa', country: 'Kenya' }))
+      .toEqual({ lat: -4.04, lon: 39.67, city: 'Mombasa', country: 'Kenya' });
+  });
+
+  it('leaves out a missing city and country', () => {
+    expect(validateIpLocation({ latitude: 0, longitude: 0 })).toEqual({ lat: 0, lon: 0, city: undefined, country: undefined });
+  });
+
+  it('reports lookup failures from either provider', () => {
+    expect(issuesOf(() => validateIpLocation({ error: true, reason: 'Reserved IP Address' }))).toEqual(['location: Reserved IP Address']);
+    expect(issuesOf(() => validateIpLocation({ status: 'fail', message: 'private range' }))).toEqual(['location: private range']);
+    expect(issuesOf(() => validateIpLocation({ status: 'fail' }))).toEqual(['location: lookup failed']);
+  });
+
+  it('rejects missing or wrongly typed coordinates', () => {
+    expect(issuesOf(() => validateIpLocation({ latitude: '-1.28', city: 3 }))).toEqual([
+      'location.latitude: expected number, got string',
+      'location.longitude: expected number, got undefined',
+      'location.city: expected string, got number',
+    ]);
+  });
+});
@@ -0,0 +1,286 @@
+// utils/validation.ts
+// Runtime validation of backend and Nominatim payloads. Each validator walks the raw JSON,
+// fills in defaults for fields the upstream may omit, and collects every problem it finds
+// so a malformed response fails with one error listing all offending paths.
+import type {
+  ApproximateLocation,
+  City,
+  CityInfo,
+  DailyForecast,
+  HourlyForecast,
+  NominatimResponse,
+  WeatherForecast
+} from './weather';
+
+// Error thrown when a response doesn't match the expected shape
+export class ResponseValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(subject: string, issues: string[]) {
+    const shown = issues.slice(0, 5).join('; ');
+    const more = issues.length > 5 ? ` (and ${issues.length - 5} more)` : '';
+    super(`Invalid ${subject}: ${shown}${more}`);
+    this.name = 'ResponseValidationError';
+    this.issues = issues;
+  }
+}
+
+type Issues = string[];
+type RawObject = Record<string, unknown>;
+
+// Short description of a value for error messages
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const isObject = (value: unknown): value is RawObject => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Read an object, reporting an issue (and returning an empty object) if it isn't one
+const object = (value: unknown, path: string, issues: Issues): RawObject => {
+  if (isObject(value)) return value;
+  issues.push(`${path}: expected object, got ${describe(value)}`);
+  return {};
+};
+
+// Read an array, reporting an issue (and returning an empty array) if it isn't one
+const array = (value: unknown, path: string, issues: Issues): unknown[] => {
+  if (Array.isArray(value)) return value;
+  issues.push(`${path}: expected array, got ${describe(value)}`);
+  return [];
+};
+
+// Read a finite number; `fallback` is used when the field is absent
+const number = (value: unknown, path: string, issues: Issues, fallback?: number): number => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if ((value === undefined || value === null) && fallback !== undefined) return fallback;
+  issues.push(`${path}: expected number, got ${describe(value)}`);
+  return NaN;
+};
+
+// Read a string; `fallback` is used when the field is absent
+const string = (value: unknown, path: string, issues: Issues, fallback?: string): string => {
+  if (typeof value === 'string') return value;
+  if ((value === undefined || value === null) && fallback !== undefined) return fallback;
+  issues.push(`${path}: expected string, got ${describe(value)}`);
+  return '';
+};
+
+// Read a numeric string such as Nominatim's "lat"/"lon"
+const numericString = (value: unknown, path: string, issues: Issues): number => {
+  const parsed = typeof value === 'string' ? parseFloat(value) : NaN;
+  if (Number.isFinite(parsed)) return parsed;
+  issues.push(`${path}: expected numeric string, got ${describe(value)}`);
+  return NaN;
+};
+
+const validateHourly = (value: unknown, path: string, issues: Issues): HourlyForecast => {
+  const raw = object(value, path, issues);
+  const main = object(raw.main, `${path}.main`, issues);
+  const wind = object(raw.wind, `${path}.wind`, issues);
+  const dt = number(raw.dt, `${path}.dt`, issues);
+
+  const temp = number(main.temp, `${path}.main.temp`, issues);
+  const pressure = number(main.pressure, `${path}.main.pressure`, issues);
+  const speed = number(wind.speed, `${path}.wind.speed`, issues);
+  const rain = raw.rain === undefined || raw.rain === null ? undefined : object(raw.rain, `${path}.rain`, issues);
+
+  return {
+    dt,
+    main: {
+      temp,
+      feels_like: number(main.feels_like, `${path}.main.feels_like`, issues, temp),
+      temp_min: number(main.temp_min, `${path}.main.temp_min`, issues, temp),
+      temp_max: number(main.temp_max, `${path}.main.temp_max`, issues, temp),
+      pressure,
+      sea_level: number(main.sea_level, `${path}.main.sea_level`, issues, pressure),
+      grnd_level: number(main.grnd_level, `${path}.main.grnd_level`, issues, pressure),
+      humidity: number(main.humidity, `${path}.main.humidity`, issues),
+      temp_kf: number(main.temp_kf, `${path}.main.temp_kf`, issues, 0),
+    },
+    weather: array(raw.weather, `${path}.weather`, issues).map((entry, index) => {
+      const weather = object(entry, `${path}.weather[${index}]`, issues);
+      return {
+        id: number(weather.id, `${path}.weather[${index}].id`, issues),
+        main: string(weather.main, `${path}.weather[${index}].main`, issues),
+        description: string(weather.description, `${path}.weather[${index}].description`, issues, ''),
+        icon: string(weather.icon, `${path}.weather[${index}].icon`, issues),
+      };
+    }),
+    clouds: {
+      all: number(isObject(raw.clouds) ? raw.clouds.all : undefined, `${path}.clouds.all`, issues, 0),
+    },
+    wind: {
+      speed,
+      deg: number(wind.deg, `${path}.wind.deg`, issues, 0),
+      // Calm periods often come back without a gust; treat the sustained speed as the gust
+      gust: number(wind.gust, `${path}.wind.gust`, issues, speed),
+    },
+    // OpenWeather omits visibility when it's at its 10km maximum
+    visibility: number(raw.visibility, `${path}.visibility`, issues, 10000),
+    pop: number(raw.pop, `${path}.pop`, issues, 0),
+    ...(rain ? { rain: { '3h': number(rain['3h'], `${path}.rain.3h`, issues, 0) } } : {}),
+    sys: {
+      pod: string(isObject(raw.sys) ? raw.sys.pod : undefined, `${path}.sys.pod`, issues, ''),
+    },
+    dt_txt: string(raw.dt_txt, `${path}.dt_txt`, issues, Number.isFinite(dt) ? new Date(dt * 1000).toISOString().slice(0, 19).replace('T', ' ') : ''),
+  };
+};
+
+const validateDaily = (value: unknown, path: string, issues: Issues): DailyForecast => {
+  const raw = object(value, path, issues);
+  const avgTemp = number(raw.avg_temp, `${path}.avg_temp`, issues);
+
+  return {
+    date: string(raw.date, `${path}.date`, issues),
+    day_of_week: string(raw.day_of_week, `${path}.day_of_week`, issues),
+    avg_temp: avgTemp,
+    min_temp: number(raw.min_temp, `${path}.min_temp`, issues, avgTemp),
+    max_temp: number(raw.max_temp, `${path}.max_temp`, issues, avgTemp),
+    weather_condition: string(raw.weather_condition, `${path}.weather_condition`, issues, ''),
+    weather_description: string(raw.weather_description, `${path}.weather_description`, issues, ''),
+    weather_icon: string(raw.weather_icon, `${path}.weather_icon`, issues),
+    hourly_forecasts: array(raw.hourly_forecasts, `${path}.hourly_forecasts`, issues)
+      .map((hour, index) => validateHourly(hour, `${path}.hourly_forecasts[${index}]`, issues)),
+  };
+};
+
+const validateCity = (value: unknown, path: string, issues: Issues): City => {
+  const raw = object(value, path, issues);
+  const coord = object(raw.coord, `${path}.coord`, issues);
+
+  return {
+    id: number(raw.id, `${path}.id`, issues, 0),
+    name: string(raw.name, `${path}.name`, issues),
+    coord: {
+      lat: number(coord.lat, `${path}.coord.lat`, issues),
+      lon: number(coord.lon, `${path}.coord.lon`, issues),
+    },
+    country: string(raw.country, `${path}.country`, issues, ''),
+    population: number(raw.population, `${path}.population`, issues, 0),
+    timezone: number(raw.timezone, `${path}.timezone`, issues, 0),
+    sunrise: number(raw.sunrise, `${path}.sunrise`, issues),
+    sunset: number(raw.sunset, `${path}.sunset`, issues),
+  };
+};
+
+const validateCityInfo = (value: unknown, path: string, issues: Issues, city: City): CityInfo => {
+  // Fall back to the OpenWeather city block when the backend doesn't send city_info
+  if (value === undefined || value === null) {
+    return { name: city.name, country: city.country, lat: city.coord.lat, lon: city.coord.lon };
+  }
+
+  const raw = object(value, path, issues);
+  return {
+    name: string(raw.name, `${path}.name`, issues, city.name),
+    country: string(raw.country, `${path}.country`, issues, city.country),
+    ...(raw.state !== undefined && raw.state !== null ? { state: string(raw.state, `${path}.state`, issues) } : {}),
+    lat: number(raw.lat, `${path}.lat`, issues, city.coord.lat),
+    lon: number(raw.lon, `${path}.lon`, issues, city.coord.lon),
+  };
+};
+
+// Validate and normalise a forecast response from the weather backend
+export const validateWeatherForecast = (value: unknown): WeatherForecast => {
+  const issues: Issues = [];
+  const raw = object(value, 'forecast', issues);
+  const city = validateCity(raw.city, 'city', issues);
+  const dailyForecasts = array(raw.daily_forecasts, 'daily_forecasts', issues)
+    .map((day, index) => validateDaily(day, `daily_forecasts[${index}]`, issues));
+
+  if (Array.isArray(raw.daily_forecasts) && dailyForecasts.length === 0) {
+    issues.push('daily_forecasts: expected at least one day');
+  }
+
+  const forecast: WeatherForecast = {
+    city,
+    daily_forecasts: dailyForecasts,
+    city_info: validateCityInfo(raw.city_info, 'city_info', issues, city),
+  };
+
+  if (issues.length > 0) {
+    throw new ResponseValidationError('forecast response', issues);
+  }
+  return forecast;
+};
+
+const validatePlace = (value: unknown, path: string, issues: Issues): NominatimResponse => {
+  const raw = object(value, path, issues);
+  // Nominatim answers unresolvable lookups with 200 and an { error } body
+  if (typeof raw.error === 'string') {
+    issues.push(`${path}: ${raw.error}`);
+    return raw as unknown as NominatimResponse;
+  }
+
+  const address = object(raw.address, `${path}.address`, issues);
+  const optional = (key: string) => address[key] === undefined ? {} : { [key]: string(address[key], `${path}.address.${key}`, issues) };
+
+  return {
+    place_id: number(raw.place_id, `${path}.place_id`, issues, 0),
+    licence: string(raw.licence, `${path}.licence`, issues, ''),
+    osm_type: string(raw.osm_type, `${path}.osm_type`, issues, ''),
+    osm_id: number(raw.osm_id, `${path}.osm_id`, issues, 0),
+    lat: String(numericString(raw.lat, `${path}.lat`, issues)),
+    lon: String(numericString(raw.lon, `${path}.lon`, issues)),
+    display_name: string(raw.display_name, `${path}.display_name`, issues, ''),
+    address: {
+      ...optional('city'),
+      ...optional('town'),
+      ...optional('village'),
+      ...optional('county'),
+      ...optional('state'),
+      // Places outside any country (e.g. at sea) have no country field
+      country: string(address.country, `${path}.address.country`, issues, ''),
+      country_code: string(address.country_code, `${path}.address.country_code`, issues, ''),
+    },
+    boundingbox: Array.isArray(raw.boundingbox) ? raw.boundingbox.map(String) : [],
+  };
+};
+
+// Validate a Nominatim /reverse response
+export const validateNominatimPlace = (value: unknown): NominatimResponse => {
+  const issues: Issues = [];
+  const place = validatePlace(value, 'place', issues);
+  if (issues.length > 0) {
+    throw new ResponseValidationError('geocoding response', issues);
+  }
+  return place;
+};
+
+// Validate a Nominatim /search response
+export const validateNominatimPlaces = (value: unknown): NominatimResponse[] => {
+  const issues: Issues = [];
+  const places = array(value, 'places', issues).map((place, index) => validatePlace(place, `places[${index}]`, issues));
+  if (issues.length > 0) {
+    throw new ResponseValidationError('geocoding response', issues);
+  }
+  return places;
+};
+
+// Validate an IP geolocation lookup. Providers differ in field names, so both the ipapi.co
+// style (latitude/longitude, country_name) and the ip-api.com style (lat/lon, country) are accepted.
+export const validateIpLocation = (value: unknown): ApproximateLocation => {
+  const issues: Issues = [];
+  const raw = object(value, 'location', issues);
+  // Both providers answer reserved or unknown addresses with 200 and an error flag
+  if (raw.error === true || raw.status === 'fail') {
+    const reason = raw.reason ?? raw.message;
+    throw new ResponseValidationError('IP location response', [`location: ${typeof reason === 'string' ? reason : 'lookup failed'}`]);
+  }
+
+  const optional = (key: string) => raw[key] === undefined || raw[key] === null ? undefined : string(raw[key], `location.${key}`, issues);
+  const location: ApproximateLocation = {
+    lat: number(raw.latitude ?? raw.lat, 'location.latitude', issues),
+    lon: number(raw.longitude ?? raw.lon, 'location.longitude', issues),
+    city: optional('city'),
+    country: optional('country_name') ?? optional('country'),
+  };
+
+  if (issues.length > 0) {
+    throw new ResponseValidationError('IP location response', issues);
+  }
+  return location;
+};
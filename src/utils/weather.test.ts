@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { nairobiForecast } from '../test/fixtures';
+import { CachedForecast, WeatherService } from './weather';
+import { WeatherServiceError } from './weatherErrors';
+import { recordForecastSnapshot } from './forecastHistory';
+
+vi.mock('./forecastHistory', () => ({ recordForecastSnapshot: vi.fn(async () => {}) }));
+
+// Without IndexedDB (as here) the forecast cache lives in memory, so each test caches its own city
+const STALE = Date.now() - 60 * 60 * 1000;
+
+describe('WeatherService.getForecastCached', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('serves a stale forecast at once and revalidates it in the background', async () => {
+    const cached = nairobiForecast();
+    const latest = nairobiForecast();
+    await WeatherService.cacheForecast({ city: 'Nyeri' }, 'metric', cached, STALE);
+    vi.spyOn(WeatherService, 'getForecastByCity').mockResolvedValue(latest);
+    const onRevalidate = vi.fn();
+
+    const result = await WeatherService.getForecastCached({ city: 'Nyeri' }, 'metric', { onRevalidate });
+    expect(result).toEqual({ data: cached, fetchedAt: STALE, fromCache: true, offline: false });
+
+    await vi.waitFor(() => expect(onRevalidate).toHaveBeenCalledOnce());
+    expect(onRevalidate.mock.calls[0][0]).toMatchObject({ data: latest, fromCache: false, offline: false });
+  });
+
+  it('reports the cached copy as offline when revalidation fails', async () => {
+    const cached = nairobiForecast();
+    await WeatherService.cacheForecast({ city: 'Nanyuki' }, 'metric', cached, STALE);
+    vi.spyOn(WeatherService, 'getForecastByCity').mockRejectedValue(new WeatherServiceError('network', 'Offline'));
+    const onRevalidate = vi.fn();
+
+    await WeatherService.getForecastCached({ city: 'Nanyuki' }, 'metric', { onRevalidate });
+    await vi.waitFor(() => expect(onRevalidate).toHaveBeenCalledOnce());
+    expect(onRevalidate).toHaveBeenCalledWith<[CachedForecast]>({ data: cached, fetchedAt: STALE, fromCache: true, offline: true });
+  });
+
+  it('doesn’t report a failing onRevalidate as being offline', async () => {
+    await WeatherService.cacheForecast({ city: 'Naivasha' }, 'metric', nairobiForecast(), STALE);
+    vi.spyOn(WeatherService, 'getForecastByCity').mockResolvedValue(nairobiForecast());
+    const failure = new Error('render failed');
+    const onRevalidate = vi.fn(() => {
+      throw failure;
+    });
+
+    await WeatherService.getForecastCached({ city: 'Naivasha' }, 'metric', { onRevalidate });
+    await vi.waitFor(() => expect(console.error).toHaveBeenCalledWith('Error handling revalidated forecast:', failure));
+    expect(onRevalidate).toHaveBeenCalledOnce();
+    expect(onRevalidate.mock.calls[0]).toEqual([expect.objectContaining({ offline: false })]);
+  });
+});
+
+describe('WeatherService.cacheForecast', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('doesn’t wait for the forecast history', async () => {
+    vi.mocked(recordForecastSnapshot).mockReturnValueOnce(new Promise(() => {}));
+    const forecast = nairobiForecast();
+
+    await WeatherService.cacheForecast({ city: 'Thika' }, 'metric', forecast, Date.now());
+    expect(recordForecastSnapshot).toHaveBeenCalledWith(forecast, expect.any(Number));
+    expect((await WeatherService.getForecastCached({ city: 'Thika' }, 'metric')).data).toBe(forecast);
+  });
+
+  it('logs a failed history write without failing the forecast', async () => {
+    const failure = new Error('quota exceeded');
+    vi.mocked(recordForecastSnapshot).mockRejectedValueOnce(failure);
+
+    await expect(WeatherService.cacheForecast({ city: 'Kitale' }, 'metric', nairobiForecast(), Date.now())).resolves.toBeUndefined();
+    await vi.waitFor(() => expect(console.error).toHaveBeenCalledWith('Error recording forecast history:', failure));
+  });
+});
@@ -1,5 +1,10 @@
 // services/weatherAPI.ts
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { readCachedForecast, writeCachedForecast } from './forecastCache';
+import { recordForecastSnapshot } from './forecastHistory';
+import { WeatherServiceError, toWeatherServiceError, withRetry } from './weatherErrors';
+import { validateIpLocation, validateNominatimPlace, validateNominatimPlaces, validateWeatherForecast } from './validation';
+import { SW_FALLBACK_HEADER } from './serviceWorker';
 
 // Interface for hourly forecast data
 export interface HourlyForecast {
@@ -84,8 +89,46 @@ export interface WeatherForecast {
   city_info: CityInfo;
 }
 
+// Interface for a coarse location derived from the client's IP address
+export interface ApproximateLocation {
+  lat: number;
+  lon: number;
+  city?: string;
+  country?: string;
+}
+
+// Location to fetch a forecast for: either a free-text city name or coordinates
+export type ForecastLocation = { city: string } | { lat: number; lon: number };
+
+// Interface for a forecast served through the client-side cache
+export interface CachedForecast {
+  data: WeatherForecast;
+  fetchedAt: number; // Epoch milliseconds when the data came from the backend
+  fromCache: boolean;
+  offline: boolean; // True when the network failed and this is the last cached copy
+}
+
+// Interface for the forecast the server fetches while rendering the page (see app/page.tsx)
+export interface InitialForecast {
+  location: ForecastLocation;
+  lang: string; // Language it was fetched in
+  data: WeatherForecast | null; // Null when the server's fetch failed; the page then fetches it itself
+  fetchedAt: number; // Epoch milliseconds
+}
+
+// Get weather icon URL from OpenWeatherMap
+export const getWeatherIconUrl = (iconCode?: string) => {
+  if (!iconCode) return '';
+  return `https://openweathermap.org/img/wn/${iconCode}@2x.png`;
+};
+
+// Interface for per-request options
+export interface RequestOptions {
+  signal?: AbortSignal; // Aborting rejects with a 'cancelled' WeatherServiceError
+}
+
 // Interface for Nominatim API response
-interface NominatimResponse {
+export interface NominatimResponse {
   place_id: number;
   licence: string;
   osm_type: string;
@@ -105,92 +148,214 @@ interface NominatimResponse {
   boundingbox: string[];
 }
 
-// Create an axios instance with default configuration
+// Create an axios instance for our forecast proxy route (see app/api/forecast)
 const weatherApi: AxiosInstance = axios.create({
-  baseURL: process.env.NEXT_PUBLIC_API_URL || 'https://weatherbackend.fly.dev',
+  baseURL: '/api',
   timeout: 20000, // Increased timeout to 20 seconds
   headers: {
-    'Content-Type': 'application/json',
     'Accept': 'application/json',
   }
 });
 
-// Create a separate instance for Nominatim API to avoid CORS issues
+// Create a separate instance for the geocoding proxy routes (see app/api/geocode),
+// which call Nominatim server-side with a proper user agent and shared cache
 const nominatimApi: AxiosInstance = axios.create({
-  baseURL: 'https://nominatim.openstreetmap.org',
+  baseURL: '/api/geocode',
   timeout: 10000,
   headers: {
     'Accept': 'application/json',
-    // Adding a user agent is recommended for Nominatim API
-    'User-Agent': 'WeatherApp/1.0'
   }
 });
 
+// How long a cached forecast is served without revalidating (defaults to 10 minutes)
+let cacheTtl = Number(process.env.NEXT_PUBLIC_FORECAST_CACHE_TTL) || 10 * 60 * 1000;
+
+// Language for weather descriptions and place names (see setLanguage)
+let language = 'en';
+
+// Build the cache key for a location + units + language (coordinates rounded to ~1km)
+const forecastCacheKey = (location: ForecastLocation, units: 'metric' | 'imperial') => {
+  if ('city' in location) {
+    return `city:${location.city.trim().toLowerCase()}:${units}:${language}`;
+  }
+  return `coords:${location.lat.toFixed(2)},${location.lon.toFixed(2)}:${units}:${language}`;
+};
+
+// Keep a freshly fetched forecast in the cache and the forecast history
+const storeForecast = async (location: ForecastLocation, units: 'metric' | 'imperial', data: WeatherForecast, fetchedAt: number) => {
+  await writeCachedForecast({ key: forecastCacheKey(location, units), data, fetchedAt });
+  // Also index city searches by their resolved coordinates so coordinate refreshes hit the cache
+  if ('city' in location && data.city_info) {
+    const coordsKey = forecastCacheKey({ lat: data.city_info.lat, lon: data.city_info.lon }, units);
+    await writeCachedForecast({ key: coordsKey, data, fetchedAt });
+  }
+  // Keep every fresh fetch for the drift view (see utils/forecastHistory.ts). Not awaited, so a
+  // slow or failing history write never holds up or fails the forecast itself.
+  recordForecastSnapshot(data, fetchedAt).catch((error) => console.error('Error recording forecast history:', error));
+};
+
+// Forecasts the service worker served from its own cache because the network was down,
+// mapped to when they were originally fetched
+const serviceWorkerFallbacks = new WeakMap<WeatherForecast, number>();
+
+// Validate a forecast response, remembering whether it came from the service worker's cache
+const toForecast = (response: AxiosResponse<unknown>): WeatherForecast => {
+  const data = validateWeatherForecast(response.data);
+  const fallbackFetchedAt = Number(response.headers[SW_FALLBACK_HEADER]);
+  if (Number.isFinite(fallbackFetchedAt) && fallbackFetchedAt > 0) {
+    serviceWorkerFallbacks.set(data, fallbackFetchedAt);
+  }
+  return data;
+};
+
+// Classify a Nominatim failure for retrying (a 404 means the place couldn't be resolved)
+const classifyGeocodingError = (error: unknown): WeatherServiceError => toWeatherServiceError(error, 'geocoding-failed');
+
+// Once retries are exhausted, Nominatim failures surface as 'geocoding-failed'
+// (cancellation and rate limiting keep their own kinds so the UI can react to them)
+const toGeocodingError = (error: unknown): WeatherServiceError => {
+  const serviceError = classifyGeocodingError(error);
+  if (['cancelled', 'rate-limited', 'geocoding-failed'].includes(serviceError.kind)) return serviceError;
+  return new WeatherServiceError('geocoding-failed', serviceError.message, { status: serviceError.status, issues: serviceError.issues, cause: error });
+};
+
+// Convert a Nominatim place into our CityInfo shape
+const toCityInfo = (data: NominatimResponse): CityInfo => {
+  // Extract city name from address properties (city, town, village or county as fallbacks)
+  const name = data.address.city || data.address.town || data.address.village || data.address.county
+    || data.display_name.split(',')[0] || 'Unknown Location';
+
+  return {
+    name,
+    country: data.address.country,
+    state: data.address.state,
+    lat: parseFloat(data.lat),
+    lon: parseFloat(data.lon)
+  };
+};
+
 // Weather service functions
 export const WeatherService = {
+  // Search for locations matching a free-text query using Nominatim forward geocoding
+  searchLocations: async (query: string, options: RequestOptions & { limit?: number } = {}): Promise<CityInfo[]> => {
+    const trimmed = query.trim();
+    if (!trimmed) return [];
+
+    try {
+      const response: AxiosResponse<unknown> = await withRetry(
+        () => nominatimApi.get(`/search`, {
+          params: {
+            q: trimmed,
+            limit: options.limit ?? 5,
+            lang: language
+          },
+          signal: options.signal
+        }),
+        classifyGeocodingError,
+        { retries: 1, signal: options.signal }
+      );
+
+      return validateNominatimPlaces(response.data).map(toCityInfo);
+    } catch (error) {
+      const serviceError = toGeocodingError(error);
+      if (serviceError.kind !== 'cancelled') {
+        console.error('Error searching locations:', serviceError);
+      }
+      throw serviceError;
+    }
+  },
+
   // Get location information from coordinates using Nominatim
-  getLocationFromCoords: async (lat: number, lon: number): Promise<CityInfo | null> => {
+  getLocationFromCoords: async (lat: number, lon: number, options: RequestOptions = {}): Promise<CityInfo> => {
     try {
-      const response: AxiosResponse<NominatimResponse> = await nominatimApi.get(`/reverse`, {
-        params: {
-          lat,
-          lon,
-          format: 'json',
-          zoom: 10,  // Zoom level for city/town detail
-          addressdetails: 1
-        }
-      });
-      
-      const data = response.data;
-      
-      // Extract city name from address properties (city, town, village or county as fallbacks)
-      const name = data.address.city || data.address.town || data.address.village || data.address.county || 'Unknown Location';
+      const response: AxiosResponse<unknown> = await withRetry(
+        () => nominatimApi.get(`/reverse`, {
+          params: {
+            lat,
+            lon,
+            lang: language
+          },
+          signal: options.signal
+        }),
+        classifyGeocodingError,
+        { retries: 1, signal: options.signal }
+      );
       
-      return {
-        name,
-        country: data.address.country,
-        state: data.address.state,
-        lat: parseFloat(data.lat),
-        lon: parseFloat(data.lon)
-      };
+      return toCityInfo(validateNominatimPlace(response.data));
+    } catch (error) {
+      const serviceError = toGeocodingError(error);
+      if (serviceError.kind !== 'cancelled') {
+        console.error('Error getting location from coordinates:', serviceError);
+      }
+      throw serviceError;
+    }
+  },
+  
+  // Get the rough location of the client's IP address (see app/api/location/ip)
+  getApproximateLocation: async (options: RequestOptions = {}): Promise<ApproximateLocation> => {
+    try {
+      const response: AxiosResponse<unknown> = await weatherApi.get('/location/ip', { signal: options.signal });
+      return validateIpLocation(response.data);
     } catch (error) {
-      console.error('Error getting location from coordinates:', error);
-      return null;
+      const serviceError = toGeocodingError(error);
+      if (serviceError.kind !== 'cancelled') {
+        console.error('Error getting approximate location:', serviceError);
+      }
+      throw serviceError;
     }
   },
   
   // Get forecast by city name
-  getForecastByCity: async (city: string, units: 'metric' | 'imperial' = 'metric'): Promise<WeatherForecast> => {
+  getForecastByCity: async (city: string, units: 'metric' | 'imperial' = 'metric', options: RequestOptions = {}): Promise<WeatherForecast> => {
     try {
-      const response: AxiosResponse<WeatherForecast> = await weatherApi.get(`/api/weather/forecast/city`, { 
-        params: { 
-          city, 
-          units 
-        }
-      });
-      return response.data;
+      const response: AxiosResponse<unknown> = await withRetry(
+        () => weatherApi.get(`/forecast`, { 
+          params: { 
+            city, 
+            units,
+            lang: language
+          },
+          signal: options.signal
+        }),
+        (error) => toWeatherServiceError(error),
+        { signal: options.signal }
+      );
+      return toForecast(response);
     } catch (error) {
-      console.error('Error fetching weather forecast:', error);
-      throw error;
+      const serviceError = toWeatherServiceError(error);
+      if (serviceError.kind === 'city-not-found') {
+        throw new WeatherServiceError('city-not-found', `Could not find "${city}"`, { status: serviceError.status, cause: error });
+      }
+      if (serviceError.kind !== 'cancelled') {
+        console.error('Error fetching weather forecast:', serviceError);
+      }
+      throw serviceError;
     }
   },
   
   // Get forecast by coordinates
-  getForecastByCoords: async (lat: number, lon: number, units: 'metric' | 'imperial' = 'metric'): Promise<WeatherForecast> => {
+  getForecastByCoords: async (lat: number, lon: number, units: 'metric' | 'imperial' = 'metric', options: RequestOptions = {}): Promise<WeatherForecast> => {
     try {
-      // First, get location information from Nominatim
-      const locationInfo = await WeatherService.getLocationFromCoords(lat, lon);
+      // Look up the place name in parallel; a geocoding failure only costs us the nicer name
+      const locationLookup = WeatherService.getLocationFromCoords(lat, lon, options).catch(() => null);
       
-      // Then get weather data - FIXED: using lat/lon as latitude/longitude in params
-      const response: AxiosResponse<WeatherForecast> = await weatherApi.get(`/api/weather/forecast/coordinates`, {
-        params: {
-          latitude: lat,
-          longitude: lon,
-          units
-        }
-      });
+      // Then get weather data
+      const response: AxiosResponse<unknown> = await withRetry(
+        () => weatherApi.get(`/forecast`, {
+          params: {
+            lat,
+            lon,
+            units,
+            lang: language
+          },
+          signal: options.signal
+        }),
+        (error) => toWeatherServiceError(error, 'geocoding-failed'),
+        { signal: options.signal }
+      );
       
-      const weatherData = response.data;
+      const weatherData = toForecast(response);
+      const locationInfo = await locationLookup;
       
       // If we have location info from Nominatim, update the city_info in the response
       if (locationInfo) {
@@ -204,10 +369,100 @@ export const WeatherService = {
       
       return weatherData;
     } catch (error) {
-      console.error('Error fetching weather forecast by coordinates:', error);
-      throw error;
+      const serviceError = toWeatherServiceError(error, 'geocoding-failed');
+      if (serviceError.kind !== 'cancelled') {
+        console.error('Error fetching weather forecast by coordinates:', serviceError);
+      }
+      throw serviceError;
     }
   },
+
+  // URL of the forecast request for a location, as the service worker sees it
+  forecastUrl: (location: ForecastLocation, units: 'metric' | 'imperial' = 'metric'): string => {
+    const params = 'city' in location
+      ? { city: location.city, units, lang: language }
+      : { lat: location.lat, lon: location.lon, units, lang: language };
+    return weatherApi.getUri({ url: '/forecast', params });
+  },
+
+  // Set the language (e.g. "fr") for weather descriptions and place names in later requests
+  setLanguage: (lang: string) => {
+    language = lang;
+  },
+
+  // Language later requests are made in
+  getLanguage: (): string => language,
+
+  // Cache a forecast fetched elsewhere (by the server while rendering the page) as if it had
+  // been fetched here
+  cacheForecast: (location: ForecastLocation, units: 'metric' | 'imperial', data: WeatherForecast, fetchedAt: number) => {
+    return storeForecast(location, units, data, fetchedAt);
+  },
+
+  // Override the cache TTL (in milliseconds)
+  configureCache: ({ ttl }: { ttl: number }) => {
+    cacheTtl = ttl;
+  },
+
+  // Get a forecast through the cache (stale-while-revalidate).
+  // Fresh entries are returned without a request; stale entries are returned immediately and
+  // revalidated in the background, with onRevalidate receiving either the new data or, if the
+  // network fails, the cached copy flagged as offline. Throws only when nothing is cached.
+  getForecastCached: async (
+    location: ForecastLocation,
+    units: 'metric' | 'imperial' = 'metric',
+    options: RequestOptions & { onRevalidate?: (result: CachedForecast) => void } = {}
+  ): Promise<CachedForecast> => {
+    const { onRevalidate } = options;
+    const key = forecastCacheKey(location, units);
+    const cached = await readCachedForecast(key);
+
+    const fetchAndStore = async (): Promise<CachedForecast> => {
+      const data = 'city' in location
+        ? await WeatherService.getForecastByCity(location.city, units, options)
+        : await WeatherService.getForecastByCoords(location.lat, location.lon, units, options);
+
+      // Offline, but the service worker had a copy (possibly refreshed by background sync):
+      // keep whichever copy is newer and report it as offline rather than fresh
+      const fallbackFetchedAt = serviceWorkerFallbacks.get(data);
+      if (fallbackFetchedAt !== undefined) {
+        if (cached && cached.fetchedAt >= fallbackFetchedAt) {
+          return { data: cached.data, fetchedAt: cached.fetchedAt, fromCache: true, offline: true };
+        }
+        await writeCachedForecast({ key, data, fetchedAt: fallbackFetchedAt });
+        return { data, fetchedAt: fallbackFetchedAt, fromCache: true, offline: true };
+      }
+
+      const fetchedAt = Date.now();
+      await storeForecast(location, units, data, fetchedAt);
+      return { data, fetchedAt, fromCache: false, offline: false };
+    };
+
+    if (!cached) {
+      return fetchAndStore();
+    }
+
+    const cachedResult: CachedForecast = { data: cached.data, fetchedAt: cached.fetchedAt, fromCache: true, offline: false };
+
+    if (Date.now() - cached.fetchedAt < cacheTtl) {
+      return cachedResult;
+    }
+
+    // Stale: serve the cached copy now and revalidate in the background. Only a failed fetch
+    // means offline; an error thrown by onRevalidate itself is logged, not reported as one.
+    fetchAndStore()
+      .then(
+        (result) => onRevalidate?.(result),
+        (error: WeatherServiceError) => {
+          // A cancelled revalidation was superseded by a newer request, not a connectivity problem
+          if (error.kind === 'cancelled') return;
+          onRevalidate?.({ ...cachedResult, offline: true });
+        }
+      )
+      .catch((error) => console.error('Error handling revalidated forecast:', error));
+
+    return cachedResult;
+  },
 };
 
 export default WeatherService;
@@ -0,0 +1,189 @@
+// utils/weatherErrors.ts
+import axios from 'axios';
+import { ResponseValidationError } from './validation';
+import type { MessageKey, MessageValues } from './i18n';
+
+// Categories of failure the UI can react to differently
+export type WeatherServiceErrorKind =
+  | 'timeout'
+  | 'network'
+  | 'city-not-found'
+  | 'rate-limited'
+  | 'server'
+  | 'geocoding-failed'
+  | 'invalid-response'
+  | 'cancelled';
+
+interface WeatherServiceErrorOptions {
+  status?: number;
+  retryAfter?: number; // Milliseconds the server asked us to wait, if it said
+  issues?: string[];   // Offending paths for 'invalid-response' errors
+  cause?: unknown;
+}
+
+// Error thrown by every WeatherService method
+export class WeatherServiceError extends Error {
+  readonly kind: WeatherServiceErrorKind;
+  readonly status?: number;
+  readonly retryAfter?: number;
+  readonly issues?: string[];
+
+  constructor(kind: WeatherServiceErrorKind, message: string, options: WeatherServiceErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'WeatherServiceError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfter = options.retryAfter;
+    this.issues = options.issues;
+  }
+
+  // Whether retrying the same request might succeed
+  get transient(): boolean {
+    return this.kind === 'timeout' || this.kind === 'network' || this.kind === 'server' || this.kind === 'rate-limited';
+  }
+}
+
+// Parse a Retry-After header (seconds or HTTP date) into milliseconds
+const parseRetryAfter = (header: unknown): number | undefined => {
+  if (typeof header !== 'string') return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Classify any thrown value (usually an AxiosError) as a WeatherServiceError.
+// `notFoundKind` decides what a 404 means for the endpoint that was called.
+export const toWeatherServiceError = (
+  error: unknown,
+  notFoundKind: WeatherServiceErrorKind = 'city-not-found'
+): WeatherServiceError => {
+  if (error instanceof WeatherServiceError) return error;
+
+  if (axios.isCancel(error) || (error instanceof DOMException && error.name === 'AbortError')) {
+    return new WeatherServiceError('cancelled', 'Request was cancelled', { cause: error });
+  }
+
+  if (error instanceof ResponseValidationError) {
+    return new WeatherServiceError('invalid-response', error.message, { issues: error.issues, cause: error });
+  }
+
+  if (!axios.isAxiosError(error)) {
+    return new WeatherServiceError('server', error instanceof Error ? error.message : 'Unexpected error', { cause: error });
+  }
+
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    return new WeatherServiceError('timeout', 'Request timed out', { cause: error });
+  }
+
+  if (!error.response) {
+    return new WeatherServiceError('network', 'Network error', { cause: error });
+  }
+
+  const { status, data, headers } = error.response;
+  const serverMessage = (data as { error?: string } | undefined)?.error;
+
+  if (status === 404) {
+    return new WeatherServiceError(notFoundKind, serverMessage || 'Location not found', { status, cause: error });
+  }
+  // Our proxy routes answer 504 when the upstream timed out
+  if (status === 504) {
+    return new WeatherServiceError('timeout', serverMessage || 'Request timed out', { status, cause: error });
+  }
+  if (status === 429) {
+    return new WeatherServiceError('rate-limited', serverMessage || 'Too many requests', {
+      status,
+      retryAfter: parseRetryAfter(headers?.['retry-after']),
+      cause: error
+    });
+  }
+  return new WeatherServiceError('server', serverMessage || `Server responded with ${status}`, { status, cause: error });
+};
+
+// Interface for retry policy configuration
+export interface RetryOptions {
+  retries: number;    // Attempts after the first one
+  baseDelay: number;  // Milliseconds before the first retry; doubles each attempt
+  maxDelay: number;   // Upper bound for any single wait
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 2,
+  baseDelay: 500,
+  maxDelay: 5000,
+};
+
+// Wait for `ms`, rejecting early if the signal aborts
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new WeatherServiceError('cancelled', 'Request was cancelled'));
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new WeatherServiceError('cancelled', 'Request was cancelled'));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Run `request`, retrying transient failures with exponential backoff and jitter
+export const withRetry = async <T>(
+  request: () => Promise<T>,
+  classify: (error: unknown) => WeatherServiceError,
+  options: Partial<RetryOptions> = {}
+): Promise<T> => {
+  const { retries, baseDelay, maxDelay, signal } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      const serviceError = classify(error);
+      if (!serviceError.transient || attempt >= retries) throw serviceError;
+
+      const backoff = Math.min(maxDelay, baseDelay * 2 ** attempt) * (0.5 + Math.random() / 2);
+      // Give up rather than wait longer than maxDelay when the server asks for a long pause
+      if (serviceError.retryAfter !== undefined && serviceError.retryAfter > maxDelay) throw serviceError;
+
+      await sleep(serviceError.retryAfter ?? backoff, signal);
+    }
+  }
+};
+
+// What the UI can offer the user to recover from an error
+export type RecoveryAction = 'retry' | 'search' | 'none';
+
+// Interface for a user-facing error message, as a message key to translate (see locales/en.ts)
+export interface ErrorDescription {
+  message: MessageKey;
+  values?: MessageValues;
+  action: RecoveryAction;
+}
+
+// Map a service error to a user-facing message and recovery action.
+// `query` is the city the user searched for, quoted back when it can't be found.
+export const describeWeatherError = (error: WeatherServiceError, query?: string): ErrorDescription => {
+  switch (error.kind) {
+    case 'timeout':
+      return { message: 'errors.timeout', action: 'retry' };
+    case 'network':
+      return { message: 'errors.network', action: 'retry' };
+    case 'city-not-found':
+      return { message: 'errors.cityNotFound', values: { city: query ?? '' }, action: 'search' };
+    case 'rate-limited':
+      return { message: 'errors.rateLimited', action: 'retry' };
+    case 'server':
+      return { message: 'errors.server', action: 'retry' };
+    case 'geocoding-failed':
+      return { message: 'errors.geocodingFailed', action: 'search' };
+    case 'invalid-response':
+      return { message: 'errors.invalidResponse', action: 'retry' };
+    case 'cancelled':
+      return { message: 'errors.cancelled', action: 'none' };
+  }
+};
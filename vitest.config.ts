@@ -0,0 +1,14 @@
+import { defineConfig } from "vitest/config";
+
+// Unit tests live next to the code they cover as *.test.ts(x)
+export default defineConfig({
+  esbuild: {
+    jsx: "automatic",
+  },
+  test: {
+    include: ["src/**/*.test.{ts,tsx}"],
+    // Component tests opt into jsdom with a `@vitest-environment jsdom` comment
+    environment: "node",
+    setupFiles: ["src/test/setup.ts"],
+  },
+});